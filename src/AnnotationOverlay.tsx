@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+
+import { ImageAnnotations, drawAnnotations } from "./annotations";
+import { FitMode, fittedRect } from "./view";
+
+type AnnotationOverlayProps = {
+  video: HTMLVideoElement | null;
+  annotations: ImageAnnotations | undefined;
+  // Size of the image the annotations were made on, 0 to use the video resolution
+  sourceWidth: number;
+  sourceHeight: number;
+  fit: FitMode;
+};
+
+/** Draws image annotations on a canvas covering the video box, aligned with the fitted video. */
+export function AnnotationOverlay({
+  video,
+  annotations,
+  sourceWidth,
+  sourceHeight,
+  fit,
+}: AnnotationOverlayProps): React.JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Bumped when the tile or the video resolution changes size, to redraw
+  const [layoutCount, setLayoutCount] = useState(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!video || !canvas) {
+      return;
+    }
+
+    const relayout = () => {
+      setLayoutCount((count) => count + 1);
+    };
+    const observer = new ResizeObserver(relayout);
+    observer.observe(canvas);
+    video.addEventListener("resize", relayout);
+
+    return () => {
+      observer.disconnect();
+      video.removeEventListener("resize", relayout);
+    };
+  }, [video]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    // Match the canvas resolution to its on-screen size for crisp lines
+    const ratio = window.devicePixelRatio;
+    canvas.width = Math.round(canvas.clientWidth * ratio);
+    canvas.height = Math.round(canvas.clientHeight * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+
+    if (!video || !annotations || video.videoWidth === 0 || video.videoHeight === 0) {
+      return;
+    }
+
+    const rect = fittedRect(
+      fit,
+      canvas.clientWidth,
+      canvas.clientHeight,
+      video.videoWidth,
+      video.videoHeight,
+    );
+
+    // Annotations may refer to a differently sized source image than the streamed one
+    const imageWidth = sourceWidth > 0 ? sourceWidth : video.videoWidth;
+    const imageHeight = sourceHeight > 0 ? sourceHeight : video.videoHeight;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+    drawAnnotations(ctx, annotations, {
+      scaleX: rect.width / imageWidth,
+      scaleY: rect.height / imageHeight,
+      offsetX: rect.x,
+      offsetY: rect.y,
+    });
+    ctx.restore();
+  }, [video, annotations, sourceWidth, sourceHeight, fit, layoutCount]);
+
+  return <canvas ref={canvasRef} style={canvasStyle} />;
+}
+
+const canvasStyle = {
+  position: "absolute" as const,
+  top: 0,
+  left: 0,
+  width: "100%",
+  height: "100%",
+  pointerEvents: "none" as const,
+};
@@ -1,58 +1,116 @@
-import { PanelExtensionContext, SettingsTreeAction, SettingsTreeNodes } from "@foxglove/extension";
-import { useEffect, useLayoutEffect, useState, useCallback, useRef } from "react";
-import { set } from "lodash";
-import { createRoot } from "react-dom/client";
+import {
+  PanelExtensionContext,
+  SettingsTreeAction,
+  SettingsTreeChildren,
+  MessageEvent,
+  SettingsTreeNodes,
+  Time,
+  Topic,
+} from "@foxglove/extension";
 import { produce } from "immer";
 import Janus, { JanusJS } from "janus-gateway";
-import adapter from "webrtc-adapter";
-
-enum ConnectionState {
-  DISCONNECTED = "Not connected",
-  INITIALIZING = "Initializing Janus...",
-  CONNECTING = "Connecting to Janus server...",
-  ATTACHING = "Attaching to streaming plugin...",
-  WATCHING = "Starting stream...",
-  CONNECTED = "Connected",
-  STOPPED = "Stream stopped",
-  DESTROYED = "Connection destroyed"
+import { set } from "lodash";
+import { useEffect, useLayoutEffect, useState, useCallback, useRef, useMemo } from "react";
+import { createRoot } from "react-dom/client";
+
+import { LogViewer } from "./LogViewer";
+import { StreamTile } from "./StreamTile";
+import { ImageAnnotations, bufferAnnotations } from "./annotations";
+import { captureFileName, downloadBlob } from "./capture";
+import { VIDEO_CODECS } from "./codecs";
+import {
+  FRAME_TIME_SCHEMA,
+  FRAME_TIME_SCHEMA_NAME,
+  FrameTiming,
+  msToTime,
+  timeToMs,
+} from "./frameTiming";
+import { janusGatewayAdapter } from "./janusAdapter";
+import { DEFAULT_PLAYOUT_SETTINGS, MAX_TARGET_DELAY_MS, jitterBufferTarget } from "./latency";
+import { errorLogSource, loadLogs, saveLogs } from "./logs";
+import { mountpointInfoFields, streamOptions } from "./mountpoints";
+import {
+  exportProfiles,
+  mergeProfiles,
+  openTextFile,
+  parseProfiles,
+  resolveConnection,
+  saveProfiles,
+  uniqueProfileName,
+  useConnectionProfiles,
+} from "./profiles";
+import { labelTopic, useTopicPublisher } from "./publish";
+import { QUALITY_MODES, QualityMode } from "./quality";
+import { DEFAULT_RECONNECT_SETTINGS, ReconnectStatus, formatReconnectStatus } from "./reconnect";
+import {
+  SELECTION_PATH_TYPES,
+  messagePathValue,
+  parseSelectionPath,
+  resolveStreamId,
+} from "./selection";
+import { parseServerUrls } from "./servers";
+import { STATS_METRICS, StatsMetric } from "./stats";
+import { ClientSettings, JanusStreamClient } from "./streamClient";
+import { DEFAULT_TALKBACK_SETTINGS, TalkbackState, useTalkback } from "./talkback";
+import {
+  ConnectionState,
+  IceServerEntry,
+  JanusSessionState,
+  Log,
+  LogEntry,
+  Mountpoint,
+  MountpointInfo,
+  PanelState,
+  StreamEntry,
+} from "./types";
+import { DEFAULT_VIEW_SETTINGS, viewSettingsFields } from "./view";
+import { DEFAULT_WATCHDOG_SETTINGS } from "./watchdog";
+
+// Settings tree node key prefixes of list entries, each entry gets its own child node
+const TILE_NODE_PREFIX = "tile:";
+const ICE_SERVER_NODE_PREFIX = "server:";
+
+// Finds the list entry a settings path points into, e.g. ["stream", "tile:abc", "streamId"]
+function listEntryAt(draft: PanelState, path: readonly string[]): { id: string } | undefined {
+  const key = path[1] ?? "";
+  if (path[0] === "stream" && key.startsWith(TILE_NODE_PREFIX)) {
+    const id = key.slice(TILE_NODE_PREFIX.length);
+    return draft.stream.tiles.find((entry) => entry.id === id);
+  }
+  if (path[0] === "ice" && key.startsWith(ICE_SERVER_NODE_PREFIX)) {
+    const id = key.slice(ICE_SERVER_NODE_PREFIX.length);
+    return draft.ice.servers.find((entry) => entry.id === id);
+  }
+  return undefined;
 }
 
-type ConnectionError = {
-  source: "janus" | "plugin" | "webrtc" | "playback" | "stream",
-  message: string
+const qualityOptions = QUALITY_MODES.map((mode) => ({
+  label: mode.charAt(0).toUpperCase() + mode.slice(1),
+  value: mode,
+}));
+
+function iceServers(entries: IceServerEntry[]): RTCIceServer[] {
+  return entries
+    .map((entry) => ({
+      urls: entry.urls
+        .split(",")
+        .map((url) => url.trim())
+        .filter((url) => url !== ""),
+      username: entry.username !== "" ? entry.username : undefined,
+      credential: entry.credential !== "" ? entry.credential : undefined,
+    }))
+    .filter((server) => server.urls.length > 0);
 }
 
-type PanelState = {
-  stream: {
-    label: string;
-    visible: boolean;
-    serverUrl: string;
-    streamId: number;
-    debug: boolean;
-  };
-};
+const STATS_METRIC_KEYS = Object.keys(STATS_METRICS) as StatsMetric[];
 
-type JanusStreamState = {
-  connectionState: ConnectionState;
-  isConnected: boolean;
-  error: ConnectionError | null;
-  videoStats: {
-    width: number;
-    height: number;
-    bitrate: string;
-  } | null;
-  shouldReconnect: boolean;
-};
+const DEFAULT_STATS_METRICS = Object.fromEntries(
+  STATS_METRIC_KEYS.map((metric) => [metric, STATS_METRICS[metric].defaultEnabled]),
+) as Record<StatsMetric, boolean>;
 
-function JanusStreamPanel({ context }: { context: PanelExtensionContext }): JSX.Element {
+function JanusStreamPanel({ context }: { context: PanelExtensionContext }): React.JSX.Element {
   const [renderDone, setRenderDone] = useState<(() => void) | undefined>();
 
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const janusRef = useRef<Janus | null>(null);
-  const streamingRef = useRef<JanusJS.PluginHandle | null>(null);
-  const bitrateTimerRef = useRef<number | null>(null);
-  const logContainerRef = useRef<HTMLDivElement>(null);
-
   // Panel settings state
   const [state, setState] = useState<PanelState>(() => {
     const partialState = context.initialState as Partial<PanelState>;
@@ -61,74 +119,547 @@ function JanusStreamPanel({ context }: { context: PanelExtensionContext }): JSX.
         label: partialState.stream?.label ?? "Janus Stream",
         visible: partialState.stream?.visible ?? true,
         serverUrl: partialState.stream?.serverUrl ?? "http://localhost:8088/janus",
+        token: partialState.stream?.token ?? "",
+        apiSecret: partialState.stream?.apiSecret ?? "",
         streamId: partialState.stream?.streamId ?? 1,
+        pin: partialState.stream?.pin ?? "",
+        view: { ...DEFAULT_VIEW_SETTINGS, ...partialState.stream?.view },
+        quality: partialState.stream?.quality ?? "auto",
+        codec: partialState.stream?.codec ?? "any",
         debug: partialState.stream?.debug ?? false,
+        layout: partialState.stream?.layout ?? "single",
+        tiles: partialState.stream?.tiles ?? [],
+      },
+      sync: {
+        lagThreshold: partialState.sync?.lagThreshold ?? 500,
+        publishFrameTimes: partialState.sync?.publishFrameTimes ?? false,
+        frameTimeTopic: partialState.sync?.frameTimeTopic ?? "/janus/frame_time",
+      },
+      stats: {
+        sparklines: partialState.stats?.sparklines ?? true,
+        historyLength: partialState.stats?.historyLength ?? 60,
+        metrics: { ...DEFAULT_STATS_METRICS, ...partialState.stats?.metrics },
+      },
+      audio: {
+        muted: partialState.audio?.muted ?? true,
+        volume: partialState.audio?.volume ?? 100,
+        levelMeter: partialState.audio?.levelMeter ?? true,
+      },
+      ice: {
+        transportPolicy: partialState.ice?.transportPolicy ?? "all",
+        servers: partialState.ice?.servers ?? [],
+      },
+      profile: {
+        name: partialState.profile?.name ?? "",
+        overrideServer: partialState.profile?.overrideServer ?? false,
+        overrideAuth: partialState.profile?.overrideAuth ?? false,
+        overrideIce: partialState.profile?.overrideIce ?? false,
+      },
+      reconnect: { ...DEFAULT_RECONNECT_SETTINGS, ...partialState.reconnect },
+      watchdog: { ...DEFAULT_WATCHDOG_SETTINGS, ...partialState.watchdog },
+      playout: { ...DEFAULT_PLAYOUT_SETTINGS, ...partialState.playout },
+      talkback: { ...DEFAULT_TALKBACK_SETTINGS, ...partialState.talkback },
+      republish: {
+        enabled: partialState.republish?.enabled ?? false,
+        topic: partialState.republish?.topic ?? "/janus/{label}/image",
+        frameId: partialState.republish?.frameId ?? "camera",
+        rate: partialState.republish?.rate ?? 5,
+        encoding: partialState.republish?.encoding ?? "jpeg",
+        jpegQuality: partialState.republish?.jpegQuality ?? 80,
+      },
+      annotations: {
+        topic: partialState.annotations?.topic ?? "",
+        sourceWidth: partialState.annotations?.sourceWidth ?? 0,
+        sourceHeight: partialState.annotations?.sourceHeight ?? 0,
+      },
+      capture: {
+        publishSnapshots: partialState.capture?.publishSnapshots ?? false,
+        snapshotTopic: partialState.capture?.snapshotTopic ?? "/janus/{label}/snapshot",
+      },
+      logs: {
+        // The log used to be shown in debug mode only
+        visible: partialState.logs?.visible ?? partialState.stream?.debug ?? false,
+        bufferSize: partialState.logs?.bufferSize ?? 1000,
+        persist: partialState.logs?.persist ?? false,
+        storageId: partialState.logs?.storageId ?? Janus.randomString(12),
+      },
+      data: {
+        publish: partialState.data?.publish ?? false,
+        topic: partialState.data?.topic ?? "/janus/{label}/data",
+        encoding: partialState.data?.encoding ?? "auto",
+        overlay: partialState.data?.overlay ?? false,
+      },
+      selection: {
+        path: partialState.selection?.path ?? "",
+      },
+      status: {
+        publish: partialState.status?.publish ?? false,
+        topic: partialState.status?.topic ?? "/janus/{label}/status",
       },
     };
   });
 
-  // Stream connection state
-  const [streamState, setStreamState] = useState<JanusStreamState>({
+  // Session state, shared by all tiles
+  const [sessionState, setSessionState] = useState<JanusSessionState>({
     connectionState: ConnectionState.DISCONNECTED,
-    isConnected: false,
+    server: null,
     error: null,
-    videoStats: null,
-    shouldReconnect: false
+    shouldReconnect: false,
   });
 
-  const [logs, setLogs] = useState<Array<{ message: string, type: "info" | "error" | "warn" }>>([]);
+  // The connected session, handed to the tiles so they can attach their plugin handles
+  const [janus, setJanus] = useState<Janus | null>(null);
 
-  const log = useCallback((message: string, type: "info" | "error" | "warn" = "info") => {
-    setLogs(prevLogs => [...prevLogs, { message, type }]);
+  // Streaming plugin handle used for "list" and "info" queries, it never watches a stream
+  const [controlHandle, setControlHandle] = useState<JanusJS.PluginHandle | null>(null);
 
-    // Auto-scroll logs to bottom
-    setTimeout(() => {
-      if (logContainerRef.current) {
-        logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
-      }
-    }, 0);
+  // Mountpoints available on the server, populated once the plugin is attached
+  const [mountpoints, setMountpoints] = useState<Mountpoint[]>([]);
+  const [mountpointInfo, setMountpointInfo] = useState<Record<number, MountpointInfo | undefined>>(
+    {},
+  );
+
+  // The next automatic reconnection attempt, if one is scheduled
+  const [reconnect, setReconnect] = useState<ReconnectStatus | null>(null);
+  // Refreshed every second while a reconnect is pending, for the countdown
+  const [now, setNow] = useState(() => Date.now());
+
+  // Foxglove playback time, the video frame times are compared against it
+  const [currentTime, setCurrentTime] = useState<Time | undefined>();
+  const currentTimeRef = useRef(currentTime);
+  currentTimeRef.current = currentTime;
+
+  // Recent annotation messages per topic, matched to the video frames by the tiles
+  const [annotationEvents, setAnnotationEvents] = useState<
+    Record<string, MessageEvent<ImageAnnotations>[]>
+  >({});
+  const [topics, setTopics] = useState<readonly Topic[]>([]);
+
+  // Latest value read from the stream selection topic
+  const [selectionValue, setSelectionValue] = useState<unknown>();
+  // Set when the stream was picked by hand while a selection topic is configured
+  const [selectionOverride, setSelectionOverride] = useState(false);
+
+  // Connection profiles shared by every panel of the extension
+  const profiles = useConnectionProfiles();
+  const profile = profiles.find((entry) => entry.name === state.profile.name);
+  // Name for the next profile saved from this panel, not persisted
+  const [profileName, setProfileName] = useState("");
+
+  // Server, auth and ICE settings in effect, from the profile unless the panel overrides them
+  const connection = useMemo(
+    () =>
+      resolveConnection(
+        {
+          serverUrl: state.stream.serverUrl,
+          token: state.stream.token,
+          apiSecret: state.stream.apiSecret,
+          ice: state.ice,
+        },
+        profile,
+        state.profile,
+      ),
+    [
+      state.stream.serverUrl,
+      state.stream.token,
+      state.stream.apiSecret,
+      state.ice,
+      state.profile,
+      profile,
+    ],
+  );
+
+  // Read by the profile actions of the settings tree
+  const profileSource = {
+    profiles,
+    connection,
+    profileName,
+    selectedName: state.profile.name,
+    stream: state.stream,
+  };
+  const profileSourceRef = useRef(profileSource);
+  profileSourceRef.current = profileSource;
+
+  // Ring buffer of log entries, restored from storage when persisted
+  const [logs, setLogs] = useState<LogEntry[]>(() =>
+    state.logs.persist ? loadLogs(state.logs.storageId) : [],
+  );
+  const logBufferSizeRef = useRef(state.logs.bufferSize);
+  logBufferSizeRef.current = state.logs.bufferSize;
+
+  const log = useCallback<Log>((message, type = "info", source = "panel") => {
+    setLogs((prevLogs) =>
+      [...prevLogs, { time: Date.now(), type, source, message }].slice(
+        -Math.max(logBufferSizeRef.current, 1),
+      ),
+    );
   }, []);
 
-  const updateStreamState = useCallback((update: Partial<JanusStreamState>) => {
-    setStreamState(currentState => {
-      const newState = {
-        ...currentState,
-        ...update
-      };
+  // Write the log to storage, batched as entries often come in bursts
+  useEffect(() => {
+    if (!state.logs.persist) {
+      return;
+    }
 
-      // Only log state change if it's actually different
-      if (update.connectionState && update.connectionState !== currentState.connectionState) {
-        log(`Connection state: ${update.connectionState}`, "info");
-      }
+    const timeout = window.setTimeout(() => {
+      saveLogs(state.logs.storageId, logs);
+    }, 1000);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [logs, state.logs.persist, state.logs.storageId]);
 
-      if (update.error && (!currentState.error ||
-        update.error.message !== currentState.error.message ||
-        update.error.source !== currentState.error.source)) {
-        log(`Error (${update.error.source}): ${update.error.message}`, "error");
-      }
+  // Drop the stored log once persisting is turned off
+  useEffect(() => {
+    if (!state.logs.persist) {
+      saveLogs(state.logs.storageId, undefined);
+    }
+  }, [state.logs.persist, state.logs.storageId]);
+
+  const clearLogs = useCallback(() => {
+    setLogs([]);
+  }, []);
+
+  const toggleLogs = useCallback(() => {
+    setState(
+      produce((draft) => {
+        draft.logs.visible = !draft.logs.visible;
+      }),
+    );
+  }, []);
+
+  const updateSessionState = useCallback(
+    (update: Partial<JanusSessionState>) => {
+      setSessionState((currentState) => {
+        // Only log state change if it's actually different
+        if (
+          update.connectionState != undefined &&
+          update.connectionState !== currentState.connectionState
+        ) {
+          log(`Session state: ${update.connectionState}`, "info", "janus");
+        }
+
+        if (
+          update.error != undefined &&
+          (currentState.error == undefined ||
+            update.error.message !== currentState.error.message ||
+            update.error.source !== currentState.error.source)
+        ) {
+          log(
+            `Error (${update.error.source}): ${update.error.message}`,
+            "error",
+            errorLogSource(update.error),
+          );
+        }
+
+        return { ...currentState, ...update };
+      });
+    },
+    [log],
+  );
+
+  // Streams rendered by the panel, the main stream always comes first
+  const streams = useMemo<StreamEntry[]>(() => {
+    const main = {
+      id: "main",
+      label: state.stream.label,
+      streamId: state.stream.streamId,
+      pin: state.stream.pin,
+      view: state.stream.view,
+    };
+    return state.stream.layout === "grid" ? [main, ...state.stream.tiles] : [main];
+  }, [
+    state.stream.label,
+    state.stream.streamId,
+    state.stream.pin,
+    state.stream.view,
+    state.stream.layout,
+    state.stream.tiles,
+  ]);
+
+  const publishFrameTime = useTopicPublisher(
+    context,
+    state.sync.publishFrameTimes ? state.sync.frameTimeTopic : undefined,
+    FRAME_TIME_SCHEMA_NAME,
+    FRAME_TIME_SCHEMA,
+    log,
+  );
 
-      return newState;
+  const handleFrameTiming = useCallback(
+    (stream: StreamEntry, timing: FrameTiming) => {
+      const playbackTime = currentTimeRef.current;
+      publishFrameTime({
+        timestamp: msToTime(timing.timeMs),
+        time_source: timing.source,
+        stream_id: stream.streamId,
+        label: stream.label,
+        rtp_timestamp: timing.rtpTimestamp,
+        playback_offset_ms:
+          playbackTime != undefined ? timing.timeMs - timeToMs(playbackTime) : undefined,
+      });
+    },
+    [publishFrameTime],
+  );
+
+  // Query the streaming plugin for the available mountpoints
+  const refreshMountpoints = useCallback(() => {
+    if (!controlHandle) {
+      return;
+    }
+
+    controlHandle.send({
+      message: { request: "list" },
+      success: (result?: { list?: Mountpoint[] }) => {
+        const list = result?.list ?? [];
+        log(`Found ${list.length} mountpoint(s) on the server`, "info", "plugin");
+        setMountpoints(list.sort((a, b) => a.id - b.id));
+      },
+      error: (error: string) => {
+        log(`Failed to list mountpoints: ${error}`, "warn", "plugin");
+      },
     });
-  }, [log]);
+
+    // Drop cached details so they are fetched again
+    setMountpointInfo({});
+  }, [controlHandle, log]);
+
+  // Fetch details on every mountpoint shown by a tile, and on all of them while a selection topic
+  // is followed, as only "info" has the names selections are matched against
+  const selectionConfigured = state.selection.path.trim() !== "";
+  // Read by the settings actions, a manual pick only overrides a configured selection topic
+  const selectionConfiguredRef = useRef(selectionConfigured);
+  selectionConfiguredRef.current = selectionConfigured;
+  useEffect(() => {
+    if (!controlHandle) {
+      return;
+    }
+
+    const ids = new Set(streams.map((stream) => stream.streamId));
+    if (selectionConfigured) {
+      for (const mountpoint of mountpoints) {
+        ids.add(mountpoint.id);
+      }
+    }
+    for (const id of ids) {
+      if (id in mountpointInfo) {
+        continue;
+      }
+
+      // Mark as pending to avoid sending the same request twice
+      setMountpointInfo((current) => ({ ...current, [id]: undefined }));
+
+      controlHandle.send({
+        message: { request: "info", id },
+        success: (result?: { info?: MountpointInfo; error?: string }) => {
+          if (result?.error != undefined) {
+            log(`Failed to get info for mountpoint ${id}: ${result.error}`, "warn", "plugin");
+            return;
+          }
+          setMountpointInfo((current) => ({ ...current, [id]: result?.info }));
+        },
+        error: (error: string) => {
+          log(`Failed to get info for mountpoint ${id}: ${error}`, "warn", "plugin");
+        },
+      });
+    }
+  }, [controlHandle, streams, mountpoints, selectionConfigured, mountpointInfo, log]);
 
   const actionHandler = useCallback(
     (action: SettingsTreeAction) => {
+      const { path } = action.payload;
+
       if (action.action === "update") {
-        const { path, value } = action.payload;
+        const { value } = action.payload;
+
+        if (path[0] === "profile" && path[1] === "newName") {
+          setProfileName(String(value ?? ""));
+          return;
+        }
 
         setState(
           produce((draft) => {
-            set(draft, path, value);
-          })
+            const entry = listEntryAt(draft, path);
+            if (entry) {
+              set(entry, path.slice(2), value);
+            } else {
+              set(draft, path, value);
+            }
+          }),
         );
 
-        if (path[1] === "serverUrl" || path[1] === "streamId") {
-          log(`Settings changed, will reconnect with new ${path[1]}: ${value}`);
-          updateStreamState({ shouldReconnect: true });
+        if (path[0] === "stream" && path[1] === "streamId") {
+          // Takes precedence over the selection topic until following it is resumed
+          if (selectionConfiguredRef.current) {
+            setSelectionOverride(true);
+          }
+        } else if (path[0] === "profile" && path[1] === "name") {
+          const selected = profileSourceRef.current.profiles.find((entry) => entry.name === value);
+          if (selected) {
+            log(`Using connection profile "${selected.name}"`);
+            setState(
+              produce((draft) => {
+                draft.stream.streamId = selected.streamId;
+              }),
+            );
+            // Picking a profile is a manual choice too, its default stream wins over the selection
+            // topic until following it is resumed
+            if (selectionConfiguredRef.current) {
+              setSelectionOverride(true);
+            }
+          }
+        } else if (
+          path[0] === "profile" &&
+          path[1]?.startsWith("override") === true &&
+          value === true
+        ) {
+          // Overrides start out from the profile's values, not the panel's older ones
+          const { profiles: currentProfiles, selectedName } = profileSourceRef.current;
+          const selected = currentProfiles.find((entry) => entry.name === selectedName);
+          if (selected) {
+            setState(
+              produce((draft) => {
+                if (path[1] === "overrideServer") {
+                  draft.stream.serverUrl = selected.serverUrl;
+                } else if (path[1] === "overrideAuth") {
+                  draft.stream.token = selected.token;
+                  draft.stream.apiSecret = selected.apiSecret;
+                } else if (path[1] === "overrideIce") {
+                  draft.ice = structuredClone(selected.ice);
+                }
+              }),
+            );
+          }
+        }
+        return;
+      }
+
+      const {
+        profiles: currentProfiles,
+        connection: current,
+        selectedName,
+      } = profileSourceRef.current;
+
+      // List entry node keys are "<prefix><id>"
+      const entryId = path[1]?.split(":")[1];
+
+      switch (action.payload.id) {
+        case "refresh-mountpoints":
+          refreshMountpoints();
+          break;
+        case "follow-selection":
+          setSelectionOverride(false);
+          break;
+        case "add-tile":
+          setState(
+            produce((draft) => {
+              draft.stream.tiles.push({
+                id: Janus.randomString(8),
+                label: `Stream ${draft.stream.tiles.length + 2}`,
+                streamId: draft.stream.streamId,
+              });
+            }),
+          );
+          break;
+        case "remove-tile":
+          setState(
+            produce((draft) => {
+              draft.stream.tiles = draft.stream.tiles.filter((entry) => entry.id !== entryId);
+            }),
+          );
+          break;
+        case "add-ice-server":
+          setState(
+            produce((draft) => {
+              draft.ice.servers.push({
+                id: Janus.randomString(8),
+                urls: "",
+                username: "",
+                credential: "",
+              });
+            }),
+          );
+          break;
+        case "remove-ice-server":
+          setState(
+            produce((draft) => {
+              draft.ice.servers = draft.ice.servers.filter((entry) => entry.id !== entryId);
+            }),
+          );
+          break;
+        case "save-profile": {
+          const { profileName: newName, stream } = profileSourceRef.current;
+          const name = uniqueProfileName(
+            currentProfiles,
+            newName.trim() !== "" ? newName.trim() : stream.label,
+          );
+          saveProfiles([...currentProfiles, { name, ...current, streamId: stream.streamId }]);
+          log(`Saved connection profile "${name}"`);
+          setProfileName("");
+          setState(
+            produce((draft) => {
+              draft.profile = {
+                name,
+                overrideServer: false,
+                overrideAuth: false,
+                overrideIce: false,
+              };
+            }),
+          );
+          break;
         }
+        case "update-profile": {
+          const { stream } = profileSourceRef.current;
+          saveProfiles(
+            currentProfiles.map((entry) =>
+              entry.name === selectedName
+                ? { name: selectedName, ...current, streamId: stream.streamId }
+                : entry,
+            ),
+          );
+          log(`Updated connection profile "${selectedName}"`);
+          // The profile now holds the overridden settings
+          setState(
+            produce((draft) => {
+              draft.profile.overrideServer = false;
+              draft.profile.overrideAuth = false;
+              draft.profile.overrideIce = false;
+            }),
+          );
+          break;
+        }
+        case "delete-profile":
+          // Other panels using it fall back to their own connection settings
+          saveProfiles(currentProfiles.filter((entry) => entry.name !== selectedName));
+          log(`Deleted connection profile "${selectedName}"`);
+          setState(
+            produce((draft) => {
+              draft.profile.name = "";
+            }),
+          );
+          break;
+        case "import-profiles":
+          openTextFile(".json,application/json")
+            .then((text) => {
+              if (text == undefined) {
+                return;
+              }
+              const imported = parseProfiles(text);
+              saveProfiles(mergeProfiles(profileSourceRef.current.profiles, imported));
+              log(`Imported ${imported.length} connection profiles`);
+            })
+            .catch((error: unknown) => {
+              log(`Failed to import connection profiles: ${String(error)}`, "error");
+            });
+          break;
+        case "export-profiles":
+          downloadBlob(
+            exportProfiles(currentProfiles),
+            captureFileName("connection_profiles", "json"),
+          );
+          break;
       }
     },
-    [log, updateStreamState],
+    [log, refreshMountpoints],
   );
 
   // Update settings UI when state changes
@@ -136,6 +667,65 @@ function JanusStreamPanel({ context }: { context: PanelExtensionContext }): JSX.
     // Save state for persistence
     context.saveState(state);
 
+    const grid = state.stream.layout === "grid";
+
+    // Connection parts taken from the profile can only be changed after overriding them
+    const serverFromProfile = profile != undefined && !state.profile.overrideServer;
+    const authFromProfile = profile != undefined && !state.profile.overrideAuth;
+    const iceFromProfile = profile != undefined && !state.profile.overrideIce;
+    const profileHelp = (part: string) =>
+      `From the "${state.profile.name}" profile, override ${part} under Connection profile to change`;
+
+    const children: SettingsTreeChildren = {
+      view: {
+        label: "View",
+        defaultExpansionState: "collapsed",
+        fields: viewSettingsFields(state.stream.view),
+      },
+      info: {
+        label: "Mountpoint info",
+        defaultExpansionState: "collapsed",
+        fields: mountpointInfoFields(mountpointInfo[state.stream.streamId] ?? null),
+      },
+    };
+
+    if (grid) {
+      state.stream.tiles.forEach((tile, index) => {
+        children[`${TILE_NODE_PREFIX}${tile.id}`] = {
+          label: tile.label,
+          icon: "Camera",
+          renamable: true,
+          order: index + 2,
+          fields: {
+            streamId: {
+              label: "Stream",
+              input: "select",
+              value: tile.streamId,
+              options: streamOptions(mountpoints, tile.streamId),
+            },
+            pin: { label: "PIN", input: "string", value: tile.pin ?? "" },
+          },
+          actions: [{ type: "action", id: "remove-tile", label: "Remove stream", icon: "Delete" }],
+          children: {
+            view: {
+              label: "View",
+              defaultExpansionState: "collapsed",
+              fields: viewSettingsFields({ ...DEFAULT_VIEW_SETTINGS, ...tile.view }),
+            },
+            info: {
+              label: "Mountpoint info",
+              defaultExpansionState: "collapsed",
+              fields: mountpointInfoFields(mountpointInfo[tile.streamId] ?? null),
+            },
+          },
+        };
+      });
+    }
+
+    const annotationTopicItems = topics
+      .filter((topic) => topic.schemaName.endsWith("ImageAnnotations"))
+      .map((topic) => topic.name);
+
     const nodes: SettingsTreeNodes = {
       stream: {
         label: state.stream.label,
@@ -144,23 +734,664 @@ function JanusStreamPanel({ context }: { context: PanelExtensionContext }): JSX.
         renamable: true,
         fields: {
           serverUrl: {
-            label: "Janus Server URL",
+            label: "Janus Server URLs",
+            input: "string",
+            value: connection.serverUrl,
+            disabled: serverFromProfile,
+            help: serverFromProfile
+              ? profileHelp("the server")
+              : "Comma separated, tried in order. ws:// and wss:// use WebSockets, http:// and https:// long polling",
+          },
+          token: {
+            label: "Token",
             input: "string",
-            value: state.stream.serverUrl,
+            value: connection.token,
+            disabled: authFromProfile,
+            help: authFromProfile
+              ? profileHelp("auth")
+              : "Janus token auth, leave empty if not used",
+          },
+          apiSecret: {
+            label: "API secret",
+            input: "string",
+            value: connection.apiSecret,
+            disabled: authFromProfile,
+            help: authFromProfile
+              ? profileHelp("auth")
+              : "Janus api_secret, leave empty if not used",
+          },
+          layout: {
+            label: "Layout",
+            input: "select",
+            value: state.stream.layout,
+            options: [
+              { label: "Single stream", value: "single" },
+              { label: "Grid", value: "grid" },
+            ],
           },
           streamId: {
-            label: "Stream ID",
-            input: "number",
+            label: "Stream",
+            input: "select",
             value: state.stream.streamId,
+            options: streamOptions(mountpoints, state.stream.streamId),
+          },
+          pin: {
+            label: "PIN",
+            input: "string",
+            value: state.stream.pin,
+            help: "For PIN protected mountpoints",
+          },
+          quality: {
+            label: "Quality",
+            input: "select",
+            value: state.stream.quality,
+            options: qualityOptions,
+            help: "Simulcast or SVC layer to receive, auto adapts to packet loss and dropped frames",
+          },
+          codec: {
+            label: "Preferred codec",
+            input: "select",
+            value: state.stream.codec,
+            options: VIDEO_CODECS.map((codec) => ({
+              label: codec === "any" ? "As offered" : codec,
+              value: codec,
+            })),
+            help: "For mountpoints with a video stream per codec, the others are declined. Changing it reconnects the streams",
           },
           debug: {
             label: "Debug Mode",
             input: "boolean",
             value: state.stream.debug,
+            help: "Adds the Janus library's debug output to the log",
           },
         },
+        actions: [
+          { type: "action", id: "refresh-mountpoints", label: "Refresh stream list" },
+          ...(grid
+            ? [
+                {
+                  type: "action" as const,
+                  id: "add-tile",
+                  label: "Add stream",
+                  icon: "Add" as const,
+                },
+              ]
+            : []),
+        ],
+        children,
         order: 1,
-      }
+      },
+      sync: {
+        label: "Time sync",
+        icon: "Clock",
+        fields: {
+          lagThreshold: {
+            label: "Lag warning (ms)",
+            input: "number",
+            min: 0,
+            step: 50,
+            value: state.sync.lagThreshold,
+            help: "Flag the video when its frames lag the current playback time by more than this",
+          },
+          publishFrameTimes: {
+            label: "Publish frame times",
+            input: "boolean",
+            value: state.sync.publishFrameTimes,
+          },
+          frameTimeTopic: {
+            label: "Frame time topic",
+            input: "string",
+            value: state.sync.frameTimeTopic,
+            disabled: !state.sync.publishFrameTimes,
+          },
+        },
+        order: 2,
+      },
+      stats: {
+        label: "Statistics",
+        icon: "Addchart",
+        fields: {
+          sparklines: {
+            label: "Sparklines",
+            input: "boolean",
+            value: state.stats.sparklines,
+          },
+          historyLength: {
+            label: "History (s)",
+            input: "number",
+            min: 5,
+            max: 600,
+            step: 5,
+            value: state.stats.historyLength,
+          },
+        },
+        children: {
+          metrics: {
+            label: "Metrics",
+            fields: Object.fromEntries(
+              STATS_METRIC_KEYS.map((metric) => [
+                metric,
+                {
+                  label: STATS_METRICS[metric].label,
+                  input: "boolean" as const,
+                  value: state.stats.metrics[metric],
+                },
+              ]),
+            ),
+          },
+        },
+        order: 3,
+      },
+      audio: {
+        label: "Audio",
+        fields: {
+          muted: { label: "Muted", input: "boolean", value: state.audio.muted },
+          volume: {
+            label: "Volume (%)",
+            input: "number",
+            value: state.audio.volume,
+            min: 0,
+            max: 100,
+            step: 5,
+          },
+          levelMeter: { label: "Level meter", input: "boolean", value: state.audio.levelMeter },
+        },
+        order: 4,
+      },
+      ice: {
+        label: "ICE",
+        icon: "Hive",
+        fields: {
+          transportPolicy: {
+            label: "Transport policy",
+            input: "select",
+            value: connection.ice.transportPolicy,
+            options: [
+              { label: "All candidates", value: "all" },
+              { label: "Relay only (TURN)", value: "relay" },
+            ],
+            disabled: iceFromProfile,
+            help: iceFromProfile ? profileHelp("ICE") : undefined,
+          },
+        },
+        actions: iceFromProfile
+          ? []
+          : [{ type: "action", id: "add-ice-server", label: "Add server", icon: "Add" }],
+        children: Object.fromEntries(
+          connection.ice.servers.map((server, index) => [
+            `${ICE_SERVER_NODE_PREFIX}${server.id}`,
+            {
+              label: server.urls !== "" ? server.urls : `Server ${index + 1}`,
+              order: index,
+              fields: {
+                urls: {
+                  label: "URLs",
+                  input: "string" as const,
+                  value: server.urls,
+                  placeholder: "stun:stun.example.com:3478",
+                  help: "Comma separated STUN/TURN URLs",
+                  disabled: iceFromProfile,
+                },
+                username: {
+                  label: "Username",
+                  input: "string" as const,
+                  value: server.username,
+                  disabled: iceFromProfile,
+                },
+                credential: {
+                  label: "Credential",
+                  input: "string" as const,
+                  value: server.credential,
+                  disabled: iceFromProfile,
+                },
+              },
+              actions: iceFromProfile
+                ? []
+                : [
+                    {
+                      type: "action" as const,
+                      id: "remove-ice-server",
+                      label: "Remove server",
+                      icon: "Delete" as const,
+                    },
+                  ],
+            },
+          ]),
+        ),
+        order: 5,
+      },
+      reconnect: {
+        label: "Reconnection",
+        icon: "Timeline",
+        fields: {
+          enabled: { label: "Auto reconnect", input: "boolean", value: state.reconnect.enabled },
+          maxAttempts: {
+            label: "Max attempts",
+            input: "number",
+            value: state.reconnect.maxAttempts,
+            min: 0,
+            step: 1,
+            disabled: !state.reconnect.enabled,
+            help: "0 retries forever",
+          },
+          initialDelay: {
+            label: "Initial delay (ms)",
+            input: "number",
+            value: state.reconnect.initialDelay,
+            min: 0,
+            step: 500,
+            disabled: !state.reconnect.enabled,
+          },
+          maxDelay: {
+            label: "Max delay (ms)",
+            input: "number",
+            value: state.reconnect.maxDelay,
+            min: 0,
+            step: 1000,
+            disabled: !state.reconnect.enabled,
+          },
+          multiplier: {
+            label: "Backoff multiplier",
+            input: "number",
+            value: state.reconnect.multiplier,
+            min: 1,
+            step: 0.5,
+            disabled: !state.reconnect.enabled,
+          },
+          jitter: {
+            label: "Jitter",
+            input: "number",
+            value: state.reconnect.jitter,
+            min: 0,
+            max: 1,
+            step: 0.05,
+            disabled: !state.reconnect.enabled,
+            help: "Fraction of the delay randomly added or removed",
+          },
+          keepAlivePeriod: {
+            label: "Keepalive period (ms)",
+            input: "number",
+            value: state.reconnect.keepAlivePeriod,
+            min: 1000,
+            step: 1000,
+            help: "Applies on the next connection",
+          },
+        },
+        order: 6,
+      },
+      republish: {
+        label: "Image topic",
+        icon: "ImageProjection",
+        fields: {
+          enabled: {
+            label: "Republish frames",
+            input: "boolean",
+            value: state.republish.enabled,
+            help: "Publish the video as an image topic for the Image and 3D panels",
+          },
+          topic: {
+            label: "Topic",
+            input: "string",
+            value: state.republish.topic,
+            disabled: !state.republish.enabled,
+            help: "{label} is replaced by the stream label",
+          },
+          frameId: {
+            label: "Frame ID",
+            input: "string",
+            value: state.republish.frameId,
+            disabled: !state.republish.enabled && !state.capture.publishSnapshots,
+            help: "{label} is replaced by the stream label. Published snapshots use it too",
+          },
+          rate: {
+            label: "Rate (Hz)",
+            input: "number",
+            value: state.republish.rate,
+            min: 0.1,
+            max: 60,
+            step: 1,
+            disabled: !state.republish.enabled,
+          },
+          encoding: {
+            label: "Encoding",
+            input: "select",
+            value: state.republish.encoding,
+            options: [
+              { label: "JPEG (foxglove.CompressedImage)", value: "jpeg" },
+              { label: "RGBA (foxglove.RawImage)", value: "rgba" },
+            ],
+            disabled: !state.republish.enabled,
+          },
+          jpegQuality: {
+            label: "JPEG quality",
+            input: "number",
+            value: state.republish.jpegQuality,
+            min: 1,
+            max: 100,
+            step: 5,
+            disabled: !state.republish.enabled || state.republish.encoding !== "jpeg",
+          },
+        },
+        order: 8,
+      },
+      annotations: {
+        label: "Annotations",
+        icon: "Shapes",
+        fields: {
+          topic: {
+            label: "Topic",
+            input: "autocomplete",
+            value: state.annotations.topic,
+            items: annotationTopicItems,
+            help: "foxglove.ImageAnnotations drawn over the video, {label} is replaced by the stream label",
+          },
+          sourceWidth: {
+            label: "Image width",
+            input: "number",
+            value: state.annotations.sourceWidth,
+            min: 0,
+            step: 1,
+            help: "Width of the image the annotations refer to, 0 for the video width",
+          },
+          sourceHeight: {
+            label: "Image height",
+            input: "number",
+            value: state.annotations.sourceHeight,
+            min: 0,
+            step: 1,
+            help: "Height of the image the annotations refer to, 0 for the video height",
+          },
+        },
+        order: 10,
+      },
+      capture: {
+        label: "Capture",
+        icon: "Camera",
+        fields: {
+          publishSnapshots: {
+            label: "Publish snapshots",
+            input: "boolean",
+            value: state.capture.publishSnapshots,
+            help: "Also publish snapshots as foxglove.CompressedImage",
+          },
+          snapshotTopic: {
+            label: "Snapshot topic",
+            input: "string",
+            value: state.capture.snapshotTopic,
+            disabled: !state.capture.publishSnapshots,
+            help: "{label} is replaced by the stream label",
+          },
+        },
+        order: 9,
+      },
+      logs: {
+        label: "Log",
+        icon: "Note",
+        fields: {
+          visible: { label: "Show log", input: "boolean", value: state.logs.visible },
+          bufferSize: {
+            label: "Max entries",
+            input: "number",
+            value: state.logs.bufferSize,
+            min: 10,
+            step: 100,
+          },
+          persist: {
+            label: "Keep across reloads",
+            input: "boolean",
+            value: state.logs.persist,
+            help: "Stores the log in the browser",
+          },
+        },
+        order: 12,
+      },
+      talkback: {
+        label: "Talkback",
+        icon: "Radar",
+        fields: {
+          enabled: {
+            label: "Push to talk",
+            input: "boolean",
+            value: state.talkback.enabled,
+            help: "Sends the microphone to an AudioBridge room while the talk button is held",
+          },
+          plugin: {
+            label: "Plugin",
+            input: "string",
+            value: state.talkback.plugin,
+            disabled: !state.talkback.enabled,
+          },
+          room: {
+            label: "Room",
+            input: "number",
+            value: state.talkback.room,
+            step: 1,
+            disabled: !state.talkback.enabled,
+          },
+          pin: {
+            label: "PIN",
+            input: "string",
+            value: state.talkback.pin,
+            disabled: !state.talkback.enabled,
+            help: "For PIN protected rooms",
+          },
+          display: {
+            label: "Display name",
+            input: "string",
+            value: state.talkback.display,
+            disabled: !state.talkback.enabled,
+          },
+        },
+        order: 16,
+      },
+      data: {
+        label: "Data channel",
+        icon: "Share",
+        fields: {
+          encoding: {
+            label: "Decode as",
+            input: "select",
+            value: state.data.encoding,
+            options: [
+              { label: "Auto", value: "auto" },
+              { label: "Text", value: "text" },
+              { label: "JSON", value: "json" },
+              { label: "Raw bytes", value: "bytes" },
+            ],
+            help: "Auto treats UTF-8 payloads as text, or JSON when they parse",
+          },
+          publish: {
+            label: "Publish messages",
+            input: "boolean",
+            value: state.data.publish,
+          },
+          topic: {
+            label: "Topic",
+            input: "string",
+            value: state.data.topic,
+            disabled: !state.data.publish,
+            help: "{label} is replaced by the stream label",
+          },
+          overlay: {
+            label: "Show text over video",
+            input: "boolean",
+            value: state.data.overlay,
+            help: "Shows the latest short text or JSON payload",
+          },
+        },
+        order: 15,
+      },
+      playout: {
+        label: "Playback",
+        icon: "Settings",
+        fields: {
+          latency: {
+            label: "Latency",
+            input: "select",
+            value: state.playout.latency,
+            options: [
+              { label: "Minimum delay", value: "minimum" },
+              { label: "Browser default", value: "default" },
+              { label: "Smooth", value: "smooth" },
+              { label: "Custom", value: "custom" },
+            ],
+            help: "Minimum delay suits teleoperation, smooth playback suits inspection",
+          },
+          targetDelay: {
+            label: "Jitter buffer (ms)",
+            input: "number",
+            value: state.playout.targetDelay,
+            min: 0,
+            max: MAX_TARGET_DELAY_MS,
+            step: 50,
+            disabled: state.playout.latency !== "custom",
+          },
+        },
+        order: 14,
+      },
+      watchdog: {
+        label: "Video watchdog",
+        icon: "Flag",
+        fields: {
+          enabled: {
+            label: "Detect frozen and black images",
+            input: "boolean",
+            value: state.watchdog.enabled,
+          },
+          frozenTimeout: {
+            label: "Frozen after (s)",
+            input: "number",
+            value: state.watchdog.frozenTimeout,
+            min: 0.5,
+            step: 0.5,
+            disabled: !state.watchdog.enabled,
+            help: "Time without new or changed frames before the image counts as frozen",
+          },
+          blackLevel: {
+            label: "Black level",
+            input: "number",
+            value: state.watchdog.blackLevel,
+            min: 0,
+            max: 255,
+            step: 1,
+            disabled: !state.watchdog.enabled,
+            help: "Mean brightness (0-255) below which the image counts as black",
+          },
+          minDifference: {
+            label: "Min frame difference",
+            input: "number",
+            value: state.watchdog.minDifference,
+            min: 0,
+            max: 255,
+            step: 0.1,
+            disabled: !state.watchdog.enabled,
+            help: "Mean pixel change (0-255) between samples below which the image counts as unchanged, 0 to only detect missing frames",
+          },
+        },
+        order: 13,
+      },
+      selection: {
+        label: "Stream selection",
+        icon: "Topic",
+        fields: {
+          path: {
+            label: "Message path",
+            input: "messagepath",
+            value: state.selection.path,
+            validTypes: SELECTION_PATH_TYPES,
+            help: "Integer stream ID or mountpoint name selecting the main stream, e.g. /robot/state.camera",
+          },
+        },
+        actions:
+          selectionOverride && state.selection.path.trim() !== ""
+            ? [{ type: "action", id: "follow-selection", label: "Follow selection topic" }]
+            : [],
+        order: 11,
+      },
+      profile: {
+        label: "Connection profile",
+        icon: "World",
+        fields: {
+          name: {
+            label: "Profile",
+            input: "select",
+            value: state.profile.name,
+            options: [
+              { label: "None", value: "" },
+              ...profiles.map((entry) => ({ label: entry.name, value: entry.name })),
+              // Deleted in another panel, kept until a different one is picked
+              ...(state.profile.name !== "" && !profile
+                ? [{ label: `${state.profile.name} (missing)`, value: state.profile.name }]
+                : []),
+            ],
+            help: "Server, auth, ICE and default stream shared by every panel of this extension. Picking one switches to its default stream, even while following a selection topic",
+          },
+          overrideServer: {
+            label: "Override server",
+            input: "boolean",
+            value: state.profile.overrideServer,
+            disabled: !profile,
+          },
+          overrideAuth: {
+            label: "Override auth",
+            input: "boolean",
+            value: state.profile.overrideAuth,
+            disabled: !profile,
+          },
+          overrideIce: {
+            label: "Override ICE",
+            input: "boolean",
+            value: state.profile.overrideIce,
+            disabled: !profile,
+          },
+          newName: {
+            label: "New profile name",
+            input: "string",
+            value: profileName,
+            placeholder: state.stream.label,
+            help: "Name for Save as new profile",
+          },
+        },
+        actions: [
+          { type: "action", id: "save-profile", label: "Save as new profile", icon: "Add" },
+          ...(profile
+            ? [
+                { type: "action" as const, id: "update-profile", label: "Save to profile" },
+                {
+                  type: "action" as const,
+                  id: "delete-profile",
+                  label: "Delete profile",
+                  icon: "Delete" as const,
+                },
+              ]
+            : []),
+          { type: "action", id: "import-profiles", label: "Import profiles" },
+          ...(profiles.length > 0
+            ? [{ type: "action" as const, id: "export-profiles", label: "Export profiles" }]
+            : []),
+        ],
+        order: 0,
+      },
+      status: {
+        label: "Status topic",
+        icon: "Topic",
+        fields: {
+          publish: {
+            label: "Publish status",
+            input: "boolean",
+            value: state.status.publish,
+            help: "Publish connection state changes, errors and stats samples of every stream",
+          },
+          topic: {
+            label: "Topic",
+            input: "string",
+            value: state.status.topic,
+            disabled: !state.status.publish,
+            help: "{label} is replaced by the stream label",
+          },
+        },
+        order: 7,
+      },
     };
 
     // Update the settings panel
@@ -168,523 +1399,547 @@ function JanusStreamPanel({ context }: { context: PanelExtensionContext }): JSX.
       actionHandler,
       nodes,
     });
-  }, [context, actionHandler, state]);
-
-  const stopStream = useCallback(() => {
-    if (!streamingRef.current) return;
-
-    log("Stopping stream");
-
-    if (videoRef.current) {
-      const oldSrcObject = videoRef.current.srcObject;
-
-      // Clear the video element first
-      videoRef.current.pause();
-      videoRef.current.srcObject = null;
+  }, [
+    context,
+    actionHandler,
+    state,
+    mountpoints,
+    mountpointInfo,
+    topics,
+    selectionOverride,
+    connection,
+    profile,
+    profiles,
+    profileName,
+  ]);
+
+  // Session lifecycle, re-created when the Janus library has to be initialized again
+  const [client, setClient] = useState<JanusStreamClient<Janus> | null>(null);
+
+  // Used from the next connection attempt on, changes only apply through a reconnect
+  const clientSettings = useMemo<ClientSettings>(
+    () => ({
+      servers: parseServerUrls(connection.serverUrl),
+      token: connection.token,
+      apiSecret: connection.apiSecret,
+      iceServers: iceServers(connection.ice.servers),
+      iceTransportPolicy: connection.ice.transportPolicy,
+      reconnect: state.reconnect,
+    }),
+    [connection, state.reconnect],
+  );
+  const clientSettingsRef = useRef(clientSettings);
+  clientSettingsRef.current = clientSettings;
 
-      // Then remove tracks from the old stream if it exists
-      if (oldSrcObject instanceof MediaStream) {
-        const tracks = oldSrcObject.getTracks();
-        tracks.forEach(track => {
-          track.stop();
-          oldSrcObject.removeTrack(track);
-        });
-      }
-    }
+  useEffect(() => {
+    client?.configure(clientSettings);
+  }, [client, clientSettings]);
 
-    const body = { request: "stop" };
-    streamingRef.current.send({ message: body });
-    streamingRef.current.hangup();
+  // Initialize Janus when component mounts
+  useEffect(() => {
+    const janusClient = new JanusStreamClient(
+      janusGatewayAdapter({ debug: state.stream.debug, log }),
+      log,
+    );
+    janusClient.on("state", updateSessionState);
+    janusClient.on("session", setJanus);
+    janusClient.on("reconnect", setReconnect);
+    janusClient.configure(clientSettingsRef.current);
+    setClient(janusClient);
+    void janusClient.start();
 
-  }, [log]);
+    return () => {
+      setClient(null);
+      janusClient.dispose();
+      setJanus(null);
+      setReconnect(null);
+      updateSessionState({ connectionState: ConnectionState.DISCONNECTED });
+    };
+  }, [state.stream.debug, log, updateSessionState]);
 
-  const startStream = useCallback(() => {
-    if (!streamingRef.current) {
-      updateStreamState({
-        connectionState: ConnectionState.DISCONNECTED,
-        error: { source: "plugin", message: "Streaming plugin not initialized" }
-      });
+  // Edits in the panel and changes to its profile, made here or in another panel, both reconnect
+  const { reconnect: _reconnect, ...connectionSettings } = clientSettings;
+  const connectionKey = JSON.stringify(connectionSettings);
+  const connectionKeyRef = useRef(connectionKey);
+  useEffect(() => {
+    if (connectionKeyRef.current === connectionKey) {
       return;
     }
+    connectionKeyRef.current = connectionKey;
+    log(`Connection settings changed, will reconnect to ${connection.serverUrl}`);
+    updateSessionState({ shouldReconnect: true });
+  }, [connectionKey, connection.serverUrl, log, updateSessionState]);
 
-    updateStreamState({ connectionState: ConnectionState.WATCHING });
-    const body = { request: "watch", id: state.stream.streamId };
-    streamingRef.current.send({ message: body });
-  }, [state.stream.streamId, updateStreamState]);
-
-  const cleanupJanus = useCallback(() => {
-    log("Cleaning up Janus resources");
-
-    // Clean up the bitrate timer
-    if (bitrateTimerRef.current) {
-      clearInterval(bitrateTimerRef.current);
-      bitrateTimerRef.current = null;
+  // Handle reconnection when settings change
+  useEffect(() => {
+    if (!sessionState.shouldReconnect) {
+      return;
     }
 
-    if (janusRef.current) {
-      try {
-        if (typeof janusRef.current.isConnected === 'function' && janusRef.current.isConnected()) {
-          log("Forcing Janus disconnection before cleanup");
-        }
+    updateSessionState({ shouldReconnect: false });
+    client?.restart();
+  }, [sessionState.shouldReconnect, client, updateSessionState]);
 
-        janusRef.current.destroy({
-          unload: true,  // Unload everything
-          notifyDestroyed: false,  // Don't trigger the destroyed callback to avoid race conditions
-          cleanupHandles: true
-        });
-      } catch (err) {
-        log(`Error during Janus cleanup: ${err}`, "warn");
-      }
-      janusRef.current = null;
+  // Streaming plugin handle for the mountpoint queries, attached to every new session
+  useEffect(() => {
+    setControlHandle(null);
+    if (!janus) {
+      return;
     }
 
-    streamingRef.current = null;
+    // Handles attached to a replaced session are dropped with it
+    let active = true;
+    janus.attach({
+      plugin: "janus.plugin.streaming",
+      opaqueId: "foxglovestreamingcontrol-" + Janus.randomString(12),
 
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-      videoRef.current.load(); // Force video element to reset
-    }
-
-    updateStreamState({
-      connectionState: ConnectionState.DISCONNECTED,
-      isConnected: false,
-      videoStats: null
-    });
-  }, [log, updateStreamState]);
-
-  const initJanusConnection = useCallback(() => {
-    // Ensure we're starting with a clean state - don't call cleanupJanus here
-    // as it may have just been called and we want to avoid redundant operations
+      success: (pluginHandle) => {
+        if (active) {
+          setControlHandle(pluginHandle);
+        }
+      },
 
-    log("Initializing new Janus connection");
-    updateStreamState({
-      connectionState: ConnectionState.CONNECTING,
-      isConnected: false,
-      error: null,
+      error: (error: string) => {
+        log(`Failed to attach control handle: ${error}`, "warn", "plugin");
+      },
     });
 
-    janusRef.current = new Janus({
-      server: state.stream.serverUrl,
-      iceServers: [],
-
-      // Success callback when connected to Janus server
-      success: function () {
-        log("Connected to Janus server, attaching plugin");
-        updateStreamState({ connectionState: ConnectionState.ATTACHING });
-
-        janusRef.current?.attach({
-          plugin: "janus.plugin.streaming",
-          opaqueId: "foxglovestreamingtest-" + Janus.randomString(12),
-
-          // Success callback when plugin is attached
-          success: function (pluginHandle) {
-            log("Successfully attached to streaming plugin");
-            streamingRef.current = pluginHandle;
-            startStream();
-          },
-
-          // Error callback for plugin attachment
-          error: function (error: any) {
-            updateStreamState({
-              connectionState: ConnectionState.DISCONNECTED,
-              error: { source: "plugin", message: String(error) }
-            });
-          },
-
-          // Handle incoming messages from Janus
-          onmessage: function (msg: any, jsep: any) {
-            if (msg["error"]) {
-              updateStreamState({
-                error: { source: "stream", message: msg["error"] }
-              });
-              return;
-            }
-
-            // Handle session description protocol offer
-            if (jsep && streamingRef.current) {
-              streamingRef.current.createAnswer({
-                jsep: jsep,
-                tracks: [{ type: 'data', capture: false }],
-                media: { audioSend: false, videoSend: false },
-
-                // Success callback for answer creation
-                success: function (jsep: any) {
-                  if (streamingRef.current) {
-                    const body = { request: "start" };
-                    streamingRef.current.send({ message: body, jsep: jsep });
-                  }
-                },
-
-                // Error callback for WebRTC negotiation
-                error: function (error: any) {
-                  updateStreamState({
-                    connectionState: ConnectionState.DISCONNECTED,
-                    error: { source: "webrtc", message: error.message || String(error) }
-                  });
-                }
-              });
-            }
-          },
-
-          // Handle incoming media tracks
-          onremotetrack: function (track: MediaStreamTrack, mid: string, on: boolean) {
-            if (!on) {
-              if (track.kind === "video") {
-                updateStreamState({
-                  connectionState: ConnectionState.STOPPED,
-                  isConnected: false,
-                  videoStats: null
-                });
-
-                if (bitrateTimerRef.current) {
-                  clearInterval(bitrateTimerRef.current);
-                  bitrateTimerRef.current = null;
-                }
-              }
-              log("Track " + track.id + " is off, skipping processing");
-              return;
-            }
-
-            if (track.kind === "video") {
-              log("Received video track: " + track.id);
+    return () => {
+      active = false;
+    };
+  }, [janus, log]);
 
-              // Use a single MediaStream instance and add/remove tracks as needed
-              // This prevents "interrupted by new load request" errors
-              if (!videoRef.current!.srcObject) {
-                const stream = new MediaStream();
-                Janus.attachMediaStream(videoRef.current!, stream);
-              }
+  // Fetch the mountpoint list as soon as the control handle is attached
+  useEffect(() => {
+    refreshMountpoints();
+  }, [refreshMountpoints]);
 
-              // Get the existing stream and add the new track
-              const stream = videoRef.current!.srcObject as MediaStream;
-
-              // Remove any existing video tracks to avoid conflicts
-              const existingVideoTracks = stream.getVideoTracks();
-              existingVideoTracks.forEach(t => stream.removeTrack(t));
-
-              // Add the new track to the stream
-              stream.addTrack(track);
-
-              // Only attempt to play if we haven't successfully connected yet
-              if (!streamState.isConnected) {
-                log("Playing video track: " + track.id);
-                // Use a small timeout to let the browser process the new track
-                setTimeout(() => {
-                  if (videoRef.current) {
-                    videoRef.current.play()
-                      .then(function () {
-                        updateStreamState({
-                          connectionState: ConnectionState.CONNECTED,
-                          isConnected: true,
-                          error: null
-                        });
-
-                        if (bitrateTimerRef.current === null) {
-                          const updateBitrate = () => {
-                            if (videoRef.current && videoRef.current.videoWidth && streamingRef.current) {
-                              try {
-                                const bitrate = streamingRef.current.getBitrate(mid);
-                                updateStreamState({
-                                  videoStats: {
-                                    width: videoRef.current.videoWidth,
-                                    height: videoRef.current.videoHeight,
-                                    bitrate
-                                  }
-                                });
-                              } catch (e) {
-                                log("Error getting bitrate: " + String(e), "warn");
-                              }
-                            }
-                          };
-
-                          updateBitrate();
-
-                          bitrateTimerRef.current = window.setInterval(updateBitrate
-                            , 1000);
-                        }
-                      })
-                      .catch(function (error: any) {
-                        // If it's just the interrupted error, we can ignore it as we'll try again
-                        if (error.message && error.message.includes('interrupted by a new load request')) {
-                          log("Play interrupted, will retry automatically", "warn");
-                        } else {
-                          updateStreamState({
-                            connectionState: ConnectionState.DISCONNECTED,
-                            error: { source: "playback", message: error.message || String(error) }
-                          });
-                        }
-                      });
-                  } else {
-                    log("Video element not found, cannot play track", "error");
-                  }
-                }, 100);
-              }
+  // Count down to the scheduled attempt in the overlay
+  useEffect(() => {
+    if (!reconnect) {
+      return;
+    }
 
-            }
-          },
+    setNow(Date.now());
+    const countdown = window.setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
 
-          // Cleanup callback when stream ends
-          oncleanup: function () {
-            if (bitrateTimerRef.current) {
-              clearInterval(bitrateTimerRef.current);
-              bitrateTimerRef.current = null;
-            }
-
-            if (videoRef.current) {
-              videoRef.current.srcObject = null;
-            }
+    return () => {
+      window.clearInterval(countdown);
+    };
+  }, [reconnect]);
 
-            updateStreamState({
-              connectionState: ConnectionState.STOPPED,
-              isConnected: false,
-              videoStats: null
-            });
-          }
-        });
-      },
+  const republishOptions = useMemo(
+    () => (state.republish.enabled ? state.republish : undefined),
+    [state.republish],
+  );
 
-      // Error callback for Janus connection
-      error: function (error: any) {
-        updateStreamState({
-          connectionState: ConnectionState.DISCONNECTED,
-          error: { source: "janus", message: String(error) }
-        });
-      },
+  // Annotation topics of all tiles, deduplicated
+  const annotationTopics = useMemo(
+    () =>
+      state.annotations.topic === ""
+        ? []
+        : [...new Set(streams.map((stream) => labelTopic(state.annotations.topic, stream.label)))],
+    [state.annotations.topic, streams],
+  );
 
-      // Destroyed callback when Janus instance is terminated
-      destroyed: function () {
-        updateStreamState({
-          connectionState: ConnectionState.DESTROYED,
-          isConnected: false,
-          videoStats: null
-        });
-      }
-    });
-  }, [state.stream.serverUrl, startStream, updateStreamState, cleanupJanus, log]);
+  const selectionPath = useMemo(
+    () =>
+      state.selection.path.trim() === ""
+        ? undefined
+        : parseSelectionPath(
+            state.selection.path,
+            topics.map((topic) => topic.name),
+          ),
+    [state.selection.path, topics],
+  );
+  const selectionPathRef = useRef(selectionPath);
+  selectionPathRef.current = selectionPath;
 
-  // Initialize Janus when component mounts
   useEffect(() => {
-    updateStreamState({ connectionState: ConnectionState.INITIALIZING });
-
-    const setupJanusLogHandlers = () => {
-      // Custom log handler to override Janus internal debugging
-      Janus.log = (...args) => {
-        if (state.stream.debug) {
-          log(`[Janus] ${args.join(' ')}`, "info");
-        }
-      };
-
-      Janus.error = (...args) => {
-        log(`[Janus Error] ${args.join(' ')}`, "error");
-      };
-
-      Janus.warn = (...args) => {
-        if (state.stream.debug) {
-          log(`[Janus Warning] ${args.join(' ')}`, "warn");
-        }
-      };
-    };
+    const subscribed = new Set(annotationTopics);
+    if (selectionPath) {
+      subscribed.add(selectionPath.topic);
+    }
+    context.subscribe([...subscribed].map((topic) => ({ topic })));
+  }, [context, annotationTopics, selectionPath]);
 
+  // A new path starts over, without a stale value or override
+  useEffect(() => {
+    setSelectionValue(undefined);
+    setSelectionOverride(false);
+  }, [state.selection.path]);
 
-    // Initialize Janus library with proper error handling
-    try {
-      Janus.init({
-        dependencies: Janus.useDefaultDependencies({ adapter: adapter }),
-        debug: state.stream.debug ? "all" : false,
-        callback: () => {
+  // Last selection value no stream matched, so the warning isn't repeated on every mountpoint update
+  const unmatchedSelectionRef = useRef<string | undefined>();
 
-          setupJanusLogHandlers();
+  // Switch the main stream to the one selected by the topic, through the same state change as the
+  // settings tree
+  useEffect(() => {
+    if (!selectionPath || selectionOverride || selectionValue == undefined) {
+      return;
+    }
 
-          log("Janus library initialized");
-          initJanusConnection();
-        }
-      });
-    } catch (error) {
-      log(`Failed to initialize Janus library: ${error}`, "error");
-      updateStreamState({
-        connectionState: ConnectionState.DISCONNECTED,
-        error: { source: "janus", message: String(error) }
-      });
+    const streamId = resolveStreamId(selectionValue, mountpoints, mountpointInfo);
+    const selection = JSON.stringify(selectionValue);
+    if (streamId == undefined) {
+      if (unmatchedSelectionRef.current !== selection) {
+        unmatchedSelectionRef.current = selection;
+        log(`No stream matches selection ${selection}`, "warn");
+      }
+      return;
+    }
+    unmatchedSelectionRef.current = undefined;
+    if (streamId !== state.stream.streamId) {
+      log(`Selection topic switched to stream ${streamId}`);
+      setState(
+        produce((draft) => {
+          draft.stream.streamId = streamId;
+        }),
+      );
     }
+  }, [
+    selectionPath,
+    selectionOverride,
+    selectionValue,
+    mountpoints,
+    mountpointInfo,
+    state.stream.streamId,
+    log,
+  ]);
+
+  const followSelection = useCallback(() => {
+    log("Following the selection topic again");
+    setSelectionOverride(false);
+  }, [log]);
 
-    return () => {
-      cleanupJanus();
-    };
-  }, [initJanusConnection, cleanupJanus, state.stream.debug, log, updateStreamState]);
+  // Bumped to have every tile take a snapshot
+  const [snapshotCount, setSnapshotCount] = useState(0);
+  const [recording, setRecording] = useState(false);
 
-  // Handle reconnection when settings change
-  useEffect(() => {
-    if (streamState.shouldReconnect) {
-      log("Reconnecting due to settings change");
+  const talkback = useTalkback(janus, state.talkback, log);
 
-      updateStreamState({ shouldReconnect: false });
+  // Holds the current image on every tile while the connections stay up
+  const [paused, setPaused] = useState(false);
 
-      stopStream();
+  const togglePaused = useCallback(() => {
+    setPaused((value) => !value);
+  }, []);
 
-      let timeout: number;
-      let reconnectTimeout: number;
+  const handleSnapshot = useCallback(() => {
+    setSnapshotCount((count) => count + 1);
+  }, []);
 
-      timeout = window.setTimeout(() => {
-        cleanupJanus();
+  const toggleRecording = useCallback(() => {
+    setRecording((value) => !value);
+  }, []);
 
-        reconnectTimeout = window.setTimeout(() => {
-          initJanusConnection();
-        }, 1000);
-      }, 500);
+  const toggleMuted = useCallback(() => {
+    setState(
+      produce((draft) => {
+        draft.audio.muted = !draft.audio.muted;
+      }),
+    );
+  }, []);
 
-      return () => {
-        window.clearTimeout(timeout);
-        if (reconnectTimeout) {
-          window.clearTimeout(reconnectTimeout);
-        }
-      };
-    }
+  const handleQualityChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const quality = event.target.value as QualityMode;
+    setState(
+      produce((draft) => {
+        draft.stream.quality = quality;
+      }),
+    );
+  }, []);
 
-    return () => { };
-  }, [streamState.shouldReconnect, stopStream, cleanupJanus, initJanusConnection, log, updateStreamState]);
+  const handleVolumeChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const volume = Number(event.target.value);
+    setState(
+      produce((draft) => {
+        draft.audio.volume = volume;
+      }),
+    );
+  }, []);
 
   // Handle manual restart stream
   const handleRestartStream = useCallback(() => {
     log("Manual stream restart requested");
+    updateSessionState({ shouldReconnect: true });
+  }, [log, updateSessionState]);
 
-    stopStream();
+  useLayoutEffect(() => {
+    context.onRender = (renderState, done) => {
+      setRenderDone(() => done);
 
-    // Give time for the stream to stop properly
-    setTimeout(() => {
-      log("Performing full Janus reconnection");
-      cleanupJanus();
+      // Only present when it changed since the last render
+      if (renderState.currentTime) {
+        setCurrentTime(renderState.currentTime);
+      }
 
-      // Wait for cleanup to complete before initializing the new connection
-      setTimeout(() => {
-        initJanusConnection();
-      }, 1000);
-    }, 500);
-  }, [initJanusConnection, stopStream, cleanupJanus, log]);
+      if (renderState.didSeek === true) {
+        setAnnotationEvents({});
+      }
+      const frame = renderState.currentFrame;
+      if (frame && frame.length > 0) {
+        const selection = selectionPathRef.current;
+        const selectionEvents = frame.filter((event) => event.topic === selection?.topic);
+        const annotationFrame = frame.filter(
+          (event) => event.topic !== selection?.topic,
+        ) as MessageEvent<ImageAnnotations>[];
+
+        const lastSelection = selectionEvents[selectionEvents.length - 1];
+        if (selection && lastSelection) {
+          setSelectionValue(messagePathValue(lastSelection.message, selection.keys));
+        }
+        if (annotationFrame.length > 0) {
+          setAnnotationEvents((current) => bufferAnnotations(current, annotationFrame));
+        }
+      }
 
-  useLayoutEffect(() => {
-    context.onRender = (_renderState, done) => {
-      setRenderDone(() => done);
+      if (renderState.topics) {
+        setTopics(renderState.topics);
+      }
     };
+
+    context.watch("currentTime");
+    context.watch("currentFrame");
+    context.watch("didSeek");
+    context.watch("topics");
   }, [context]);
 
   useEffect(() => {
     renderDone?.();
   }, [renderDone]);
 
-  // Styles
-  const containerStyle = {
-    height: '100%',
-    width: '100%',
-    position: 'relative' as const,
-    backgroundColor: '#000',
-    display: 'flex',
-    flexDirection: 'column' as const,
-  };
-
-  const videoStyle = {
-    width: '100%',
-    height: '100%',
-    objectFit: 'contain' as const,
-  };
-
-  const statsStyle = {
-    position: 'absolute' as const,
-    bottom: '10px',
-    left: '10px',
-    color: 'white',
-    backgroundColor: 'rgba(0,0,0,0.5)',
-    padding: '5px 10px',
-    borderRadius: '4px',
-    fontFamily: 'monospace',
-    fontSize: '12px',
-    zIndex: 10,
-  };
-
-  const buttonStyle = {
-    position: 'absolute' as const,
-    bottom: '10px',
-    right: '10px',
-    backgroundColor: 'rgba(0,0,0,0.5)',
-    color: 'white',
-    border: 'none',
-    padding: '5px 10px',
-    borderRadius: '4px',
-    cursor: 'pointer',
-    zIndex: 10,
+  // Lay tiles out in a roughly square grid
+  const columns = Math.ceil(Math.sqrt(streams.length));
+  const rows = Math.ceil(streams.length / columns);
+
+  const gridStyle = {
+    flex: 1,
+    minHeight: 0,
+    display: "grid",
+    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+    gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+    gap: streams.length > 1 ? "2px" : 0,
   };
 
-  const overlayStyle = {
-    position: 'absolute' as const,
-    top: '50%',
-    left: '50%',
-    transform: 'translate(-50%, -50%)',
-    color: 'white',
-    backgroundColor: 'rgba(0,0,0,0.7)',
-    padding: '10px 20px',
-    borderRadius: '4px',
-    fontFamily: 'sans-serif',
-    display: streamState.isConnected ? 'none' : 'block',
-    zIndex: 5,
-  };
-
-  const logContainerStyle = {
-    position: 'absolute' as const,
-    top: '10px',
-    right: '10px',
-    width: '300px',
-    maxHeight: '200px',
-    backgroundColor: 'rgba(0,0,0,0.7)',
-    color: 'white',
-    padding: '10px',
-    borderRadius: '4px',
-    fontFamily: 'monospace',
-    fontSize: '11px',
-    overflowY: 'auto' as const,
-    zIndex: 20,
-    display: state.stream.debug ? 'block' : 'none',
-  };
-
-  const logEntryStyle = (type: "info" | "error" | "warn") => ({
-    margin: '3px 0',
-    color: type === "error" ? '#ff6b6b' : type === "warn" ? '#feca57' : '#dfe6e9',
-    wordBreak: 'break-word' as const,
-  });
-
   return (
     <div style={containerStyle}>
-      <video ref={videoRef} style={videoStyle} autoPlay playsInline muted></video>
-
-      {/* Stats display */}
-      {streamState.videoStats && (
-        <div style={statsStyle}>
-          Resolution: {streamState.videoStats.width}x{streamState.videoStats.height} |
-          Bitrate: {streamState.videoStats.bitrate}
-        </div>
-      )}
-
-      {/* Restart button */}
-      <button style={buttonStyle} onClick={handleRestartStream}>Restart</button>
+      <div style={gridStyle}>
+        {streams.map((stream) => (
+          <StreamTile
+            key={stream.id}
+            context={context}
+            janus={janus}
+            sessionState={sessionState.connectionState}
+            server={sessionState.server}
+            sessionError={sessionState.error}
+            label={stream.label}
+            streamId={stream.streamId}
+            pin={stream.pin ?? ""}
+            view={{ ...DEFAULT_VIEW_SETTINGS, ...stream.view }}
+            quality={state.stream.quality}
+            codec={state.stream.codec}
+            watchdog={state.watchdog}
+            jitterBufferTarget={jitterBufferTarget(state.playout)}
+            paused={paused}
+            selectionStatus={
+              stream.id === "main" && selectionPath
+                ? selectionOverride
+                  ? "Manual override"
+                  : `Selected by ${selectionPath.topic}`
+                : undefined
+            }
+            showLabel={streams.length > 1}
+            currentTime={currentTime}
+            lagThreshold={state.sync.lagThreshold}
+            statsMetrics={state.stats.metrics}
+            sparklines={state.stats.sparklines}
+            historyLength={state.stats.historyLength}
+            onFrameTiming={
+              state.sync.publishFrameTimes
+                ? (timing) => {
+                    handleFrameTiming(stream, timing);
+                  }
+                : undefined
+            }
+            audioMuted={state.audio.muted}
+            volume={state.audio.volume / 100}
+            audioMeter={state.audio.levelMeter}
+            snapshotCount={snapshotCount}
+            snapshotTopic={
+              state.capture.publishSnapshots
+                ? labelTopic(state.capture.snapshotTopic, stream.label)
+                : undefined
+            }
+            snapshotFrameId={labelTopic(state.republish.frameId, stream.label)}
+            recording={recording}
+            republish={republishOptions}
+            annotations={
+              state.annotations.topic !== ""
+                ? (annotationEvents[labelTopic(state.annotations.topic, stream.label)] ?? [])
+                : undefined
+            }
+            annotationSourceWidth={state.annotations.sourceWidth}
+            annotationSourceHeight={state.annotations.sourceHeight}
+            dataTopic={state.data.publish ? labelTopic(state.data.topic, stream.label) : undefined}
+            dataEncoding={state.data.encoding}
+            dataOverlay={state.data.overlay}
+            statusTopic={
+              state.status.publish ? labelTopic(state.status.topic, stream.label) : undefined
+            }
+            reconnectStatus={reconnect ? formatReconnectStatus(reconnect, now) : undefined}
+            client={client}
+            log={log}
+          />
+        ))}
+      </div>
 
-      {/* Connection status overlay */}
-      <div style={overlayStyle}>
-        {streamState.error
-          ? `${streamState.connectionState}: ${streamState.error.message}`
-          : streamState.connectionState
-        }
+      <div style={controlsStyle}>
+        {/* Audio controls */}
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={state.audio.volume}
+          disabled={state.audio.muted}
+          onChange={handleVolumeChange}
+          style={volumeStyle}
+          title={`Volume ${state.audio.volume}%`}
+        />
+        <button style={buttonStyle} onClick={toggleMuted}>
+          {state.audio.muted ? "Unmute" : "Mute"}
+        </button>
+
+        {/* Playback controls */}
+        <button style={buttonStyle} onClick={togglePaused}>
+          {paused ? "Resume" : "Pause"}
+        </button>
+
+        {/* Push to talk */}
+        {state.talkback.enabled && (
+          <button
+            style={{ ...buttonStyle, color: talkbackColor(talkback.state, talkback.error) }}
+            disabled={talkback.state !== "ready" && talkback.state !== "talking"}
+            onPointerDown={talkback.start}
+            onPointerUp={talkback.stop}
+            onPointerLeave={talkback.stop}
+            onPointerCancel={talkback.stop}
+            title={talkback.error ?? "Hold to talk through the robot's speaker"}
+          >
+            {talkbackLabel(talkback.state)}
+          </button>
+        )}
+
+        {/* Capture controls */}
+        <button style={buttonStyle} onClick={handleSnapshot}>
+          Snapshot
+        </button>
+        <button
+          style={{ ...buttonStyle, color: recording ? "#ff6b6b" : buttonStyle.color }}
+          onClick={toggleRecording}
+        >
+          {recording ? "Stop recording" : "Record"}
+        </button>
+
+        {/* Quality selection */}
+        <select
+          style={buttonStyle}
+          value={state.stream.quality}
+          onChange={handleQualityChange}
+          title="Stream quality"
+        >
+          {qualityOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <button style={buttonStyle} onClick={toggleLogs}>
+          {state.logs.visible ? "Hide logs" : "Logs"}
+        </button>
+
+        {selectionOverride && selectionPath && (
+          <button
+            style={buttonStyle}
+            onClick={followSelection}
+            title="Let the selection topic pick the stream again"
+          >
+            Follow topic
+          </button>
+        )}
+
+        {/* Restart button */}
+        <button style={buttonStyle} onClick={handleRestartStream}>
+          Restart
+        </button>
       </div>
 
       {/* Log display */}
-      <div ref={logContainerRef} style={logContainerStyle}>
-        {logs.map((log, index) => (
-          <div key={index} style={logEntryStyle(log.type)}>
-            {log.message}
-          </div>
-        ))}
-      </div>
+      {state.logs.visible && (
+        <LogViewer entries={logs} label={state.stream.label} onClear={clearLogs} />
+      )}
     </div>
   );
 }
 
+// Styles
+const containerStyle = {
+  height: "100%",
+  width: "100%",
+  position: "relative" as const,
+  backgroundColor: "#000",
+  display: "flex",
+  flexDirection: "column" as const,
+};
+
+const controlsStyle = {
+  position: "absolute" as const,
+  bottom: "10px",
+  right: "10px",
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+  zIndex: 10,
+};
+
+const buttonStyle = {
+  backgroundColor: "rgba(0,0,0,0.5)",
+  color: "white",
+  border: "none",
+  padding: "5px 10px",
+  borderRadius: "4px",
+  cursor: "pointer",
+};
+
+function talkbackLabel(state: TalkbackState): string {
+  switch (state) {
+    case "off":
+    case "joining":
+      return "Joining room...";
+    case "ready":
+      return "Hold to talk";
+    case "talking":
+      return "Talking";
+    case "error":
+      return "Talkback error";
+  }
+}
+
+function talkbackColor(state: TalkbackState, error: string | undefined): string {
+  if (state === "talking") {
+    return "#4caf50";
+  }
+  return state === "error" || error != undefined ? "#ff6b6b" : buttonStyle.color;
+}
+
+const volumeStyle = {
+  width: "80px",
+};
+
 export function initJanusStreamPanel(context: PanelExtensionContext): () => void {
   const root = createRoot(context.panelElement);
   root.render(<JanusStreamPanel context={context} />);
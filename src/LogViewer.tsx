@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { captureFileName, downloadBlob } from "./capture";
+import { LOG_SOURCES, exportLogs } from "./logs";
+import { LogEntry, LogSource, LogType } from "./types";
+
+const LOG_TYPES: LogType[] = ["info", "warn", "error"];
+
+type LogViewerProps = {
+  entries: LogEntry[];
+  // Used to name exported files
+  label: string;
+  onClear: () => void;
+};
+
+/** Log entries with severity and source filters, text search, export and pausable autoscroll. */
+export function LogViewer({ entries, label, onClear }: LogViewerProps): React.JSX.Element {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [types, setTypes] = useState<LogType[]>(LOG_TYPES);
+  const [sources, setSources] = useState<LogSource[]>(LOG_SOURCES);
+  const [search, setSearch] = useState("");
+  const [paused, setPaused] = useState(false);
+
+  const visibleEntries = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        types.includes(entry.type) &&
+        sources.includes(entry.source) &&
+        (text === "" || entry.message.toLowerCase().includes(text)),
+    );
+  }, [entries, types, sources, search]);
+
+  // Follow new entries unless paused
+  useEffect(() => {
+    if (!paused && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [visibleEntries, paused]);
+
+  const exportEntries = (format: "log" | "json") => {
+    downloadBlob(exportLogs(visibleEntries, format), captureFileName(`${label}_log`, format));
+  };
+
+  return (
+    <div style={viewerStyle}>
+      <div style={toolbarStyle}>
+        {LOG_TYPES.map((type) => (
+          <ToggleButton
+            key={type}
+            label={type}
+            color={logColor(type)}
+            active={types.includes(type)}
+            onToggle={() => {
+              setTypes((current) => toggle(current, type));
+            }}
+          />
+        ))}
+        <span style={separatorStyle} />
+        {LOG_SOURCES.map((source) => (
+          <ToggleButton
+            key={source}
+            label={source}
+            active={sources.includes(source)}
+            onToggle={() => {
+              setSources((current) => toggle(current, source));
+            }}
+          />
+        ))}
+      </div>
+      <div style={toolbarStyle}>
+        <input
+          style={searchStyle}
+          placeholder="Search"
+          value={search}
+          onChange={(event) => {
+            setSearch(event.target.value);
+          }}
+        />
+        <button
+          style={buttonStyle}
+          onClick={() => {
+            setPaused((value) => !value);
+          }}
+        >
+          {paused ? "Follow" : "Pause"}
+        </button>
+        <button style={buttonStyle} onClick={onClear}>
+          Clear
+        </button>
+        <button
+          style={buttonStyle}
+          title="Export the shown entries as text"
+          onClick={() => {
+            exportEntries("log");
+          }}
+        >
+          .log
+        </button>
+        <button
+          style={buttonStyle}
+          title="Export the shown entries as JSON"
+          onClick={() => {
+            exportEntries("json");
+          }}
+        >
+          JSON
+        </button>
+      </div>
+      <div ref={listRef} style={listStyle}>
+        {visibleEntries.map((entry, index) => (
+          <div key={index} style={{ ...entryStyle, color: logColor(entry.type) }}>
+            <span style={metaStyle}>
+              {new Date(entry.time).toLocaleTimeString()} {entry.source}
+            </span>{" "}
+            {entry.message}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ToggleButton({
+  label,
+  color,
+  active,
+  onToggle,
+}: {
+  label: string;
+  color?: string;
+  active: boolean;
+  onToggle: () => void;
+}): React.JSX.Element {
+  return (
+    <button
+      style={{ ...buttonStyle, color, opacity: active ? 1 : 0.4 }}
+      onClick={onToggle}
+      title={active ? `Hide ${label}` : `Show ${label}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+}
+
+function logColor(type: LogType): string {
+  return type === "error" ? "#ff6b6b" : type === "warn" ? "#feca57" : "#dfe6e9";
+}
+
+// Styles
+const viewerStyle = {
+  position: "absolute" as const,
+  top: "10px",
+  right: "10px",
+  width: "420px",
+  maxWidth: "calc(100% - 20px)",
+  maxHeight: "60%",
+  display: "flex",
+  flexDirection: "column" as const,
+  gap: "4px",
+  backgroundColor: "rgba(0,0,0,0.8)",
+  color: "white",
+  padding: "8px",
+  borderRadius: "4px",
+  fontFamily: "monospace",
+  fontSize: "11px",
+  zIndex: 20,
+};
+
+const toolbarStyle = {
+  display: "flex",
+  flexWrap: "wrap" as const,
+  alignItems: "center",
+  gap: "4px",
+};
+
+const separatorStyle = {
+  width: "8px",
+};
+
+const buttonStyle = {
+  backgroundColor: "rgba(255,255,255,0.1)",
+  color: "white",
+  border: "none",
+  padding: "2px 6px",
+  borderRadius: "3px",
+  cursor: "pointer",
+  fontFamily: "monospace",
+  fontSize: "11px",
+};
+
+const searchStyle = {
+  flex: 1,
+  minWidth: "80px",
+  backgroundColor: "rgba(255,255,255,0.1)",
+  color: "white",
+  border: "none",
+  padding: "2px 6px",
+  borderRadius: "3px",
+  fontFamily: "monospace",
+  fontSize: "11px",
+};
+
+const listStyle = {
+  overflowY: "auto" as const,
+  minHeight: 0,
+};
+
+const entryStyle = {
+  margin: "3px 0",
+  wordBreak: "break-word" as const,
+};
+
+const metaStyle = {
+  opacity: 0.6,
+};
@@ -0,0 +1,101 @@
+import { STATS_METRICS, StatsMetric, StreamStats } from "./stats";
+
+type StatsOverlayProps = {
+  // Samples in chronological order, the latest last
+  history: StreamStats[];
+  metrics: Record<StatsMetric, boolean>;
+  sparklines: boolean;
+  children?: React.ReactNode;
+};
+
+/** Shows the enabled metrics of the latest stats sample, with sparklines of their history. */
+export function StatsOverlay({
+  history,
+  metrics,
+  sparklines,
+  children,
+}: StatsOverlayProps): React.JSX.Element | null {
+  const latest = history[history.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  const rows = (Object.keys(STATS_METRICS) as StatsMetric[])
+    .filter((metric) => metrics[metric])
+    .map((metric) => {
+      const definition = STATS_METRICS[metric];
+      const getValue = definition.value;
+      return {
+        metric,
+        label: definition.label,
+        text: definition.format(latest) ?? "-",
+        values: getValue && sparklines ? history.map((stats) => getValue(stats)) : undefined,
+      };
+    });
+
+  return (
+    <div style={statsStyle}>
+      {rows.map((row) => (
+        <div key={row.metric} style={rowStyle}>
+          <span>
+            {row.label}: {row.text}
+          </span>
+          {row.values && <Sparkline values={row.values} />}
+        </div>
+      ))}
+      {children}
+    </div>
+  );
+}
+
+const SPARKLINE_WIDTH = 60;
+const SPARKLINE_HEIGHT = 12;
+
+function Sparkline({ values }: { values: Array<number | undefined> }): React.JSX.Element | null {
+  const points = values
+    .map((value, index) => ({ value, index }))
+    .filter((point): point is { value: number; index: number } => point.value != undefined);
+  if (points.length < 2) {
+    return null;
+  }
+
+  const min = Math.min(...points.map((point) => point.value));
+  const max = Math.max(...points.map((point) => point.value));
+  const range = max > min ? max - min : 1;
+  const step = SPARKLINE_WIDTH / Math.max(values.length - 1, 1);
+
+  const path = points
+    .map((point) => {
+      const x = point.index * step;
+      const y = SPARKLINE_HEIGHT - ((point.value - min) / range) * SPARKLINE_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} style={{ flexShrink: 0 }}>
+      <polyline points={path} fill="none" stroke="#74b9ff" strokeWidth={1} />
+    </svg>
+  );
+}
+
+// Styles
+const statsStyle = {
+  position: "absolute" as const,
+  bottom: "10px",
+  left: "10px",
+  color: "white",
+  backgroundColor: "rgba(0,0,0,0.5)",
+  padding: "5px 10px",
+  borderRadius: "4px",
+  fontFamily: "monospace",
+  fontSize: "12px",
+  zIndex: 10,
+};
+
+const rowStyle = {
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "space-between",
+  gap: "8px",
+};
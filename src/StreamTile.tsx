@@ -0,0 +1,1134 @@
+import { MessageEvent, PanelExtensionContext, Time } from "@foxglove/extension";
+import Janus, { JanusJS } from "janus-gateway";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { AnnotationOverlay } from "./AnnotationOverlay";
+import { StatsOverlay } from "./StatsOverlay";
+import { ImageAnnotations, matchAnnotations } from "./annotations";
+import { watchAudioLevel } from "./audioLevel";
+import { captureFileName, captureFrame, downloadBlob, recordStream } from "./capture";
+import {
+  SOFTWARE_DECODE_WARN_PIXELS,
+  VideoCodec,
+  activeVideoReceiver,
+  isSoftwareDecoder,
+} from "./codecs";
+import {
+  DATA_SCHEMA,
+  DATA_SCHEMA_NAME,
+  DataEncoding,
+  DecodedData,
+  dataMessage,
+  dataOverlayText,
+  decodeData,
+  payloadContent,
+} from "./dataChannel";
+import { FrameTiming, msToTime, timeToMs, watchFrameTiming } from "./frameTiming";
+import {
+  COMPRESSED_IMAGE_SCHEMA,
+  COMPRESSED_IMAGE_SCHEMA_NAME,
+  RAW_IMAGE_SCHEMA,
+  RAW_IMAGE_SCHEMA_NAME,
+  compressedImage,
+} from "./imageMessages";
+import { JanusStream, MediaSink } from "./janusStream";
+import { applyJitterBufferTarget } from "./latency";
+import { errorLogSource } from "./logs";
+import { labelTopic, useTopicPublisher } from "./publish";
+import {
+  ADAPTATION_HOLD_MS,
+  QUALITY_LEVELS,
+  QualityLevel,
+  QualityMode,
+  StreamLayers,
+  adaptQualityLevel,
+  configureRequest,
+  formatLayers,
+} from "./quality";
+import { RepublishOptions, encodeFrame, sampleFrames } from "./republish";
+import { describeServer } from "./servers";
+import { StatsMetric, StatsTotals, StreamStats, collectStats } from "./stats";
+import { STATUS_SCHEMA, STATUS_SCHEMA_NAME, StreamStatus, streamStatus } from "./status";
+import { JanusStreamClient } from "./streamClient";
+import { ConnectionError, ConnectionState, JanusStreamState, Log } from "./types";
+import { OBJECT_FIT, ViewSettings, viewTransform } from "./view";
+import { VideoAlarm, WatchdogSettings, watchVideo } from "./watchdog";
+
+type StreamTileProps = {
+  context: PanelExtensionContext;
+  // Shared session, null while the panel is (re)connecting
+  janus: Janus | null;
+  // State of the shared session, shown while there is no session to attach to
+  sessionState: ConnectionState;
+  sessionError: ConnectionError | null;
+  // Server URL of the session
+  server: string | null;
+  label: string;
+  streamId: number;
+  pin: string;
+  showLabel: boolean;
+  // Foxglove playback time the video is compared against
+  currentTime: Time | undefined;
+  lagThreshold: number;
+  statsMetrics: Record<StatsMetric, boolean>;
+  sparklines: boolean;
+  // Number of stats samples (one per second) kept for the sparklines
+  historyLength: number;
+  onFrameTiming?: (timing: FrameTiming) => void;
+  // Topic the stream health is published on, undefined to not publish
+  statusTopic: string | undefined;
+  // Topic data channel messages are republished on, undefined to not publish
+  dataTopic: string | undefined;
+  dataEncoding: DataEncoding;
+  dataOverlay: boolean;
+  // Bumped by the panel to take a snapshot
+  snapshotCount: number;
+  // Topic snapshots are also published on
+  snapshotTopic: string | undefined;
+  // Frame ID of the published snapshots, shared with the republished frames
+  snapshotFrameId: string;
+  recording: boolean;
+  // Republish frames as images, "{label}" in the topic and frame ID is replaced by the label
+  republish: RepublishOptions | undefined;
+  // Recent messages of the annotations topic, undefined when annotations are off
+  annotations: MessageEvent<ImageAnnotations>[] | undefined;
+  annotationSourceWidth: number;
+  annotationSourceHeight: number;
+  audioMuted: boolean;
+  // Between 0 and 1
+  volume: number;
+  view: ViewSettings;
+  quality: QualityMode;
+  codec: VideoCodec;
+  watchdog: WatchdogSettings;
+  // Milliseconds, null for the browser default
+  jitterBufferTarget: number | null;
+  // Hold the current image while keeping the connection
+  paused: boolean;
+  // How the stream was selected, shown when a selection topic is configured
+  selectionStatus?: string;
+  audioMeter: boolean;
+  // Shown instead of the connection state while an automatic reconnect is pending
+  reconnectStatus: string | undefined;
+  // Opens the tile's stream on the session, and reconnects the session when it drops
+  client: JanusStreamClient<Janus> | null;
+  log: Log;
+};
+
+/**
+ * Renders a single mountpoint. Each tile opens its own stream on the session owned by the panel's
+ * client, so several tiles share one Janus connection.
+ */
+export function StreamTile({
+  context,
+  janus,
+  sessionState,
+  sessionError,
+  server,
+  label,
+  streamId,
+  pin,
+  showLabel,
+  currentTime,
+  lagThreshold,
+  statsMetrics,
+  sparklines,
+  historyLength,
+  onFrameTiming,
+  statusTopic,
+  dataTopic,
+  dataEncoding,
+  dataOverlay,
+  snapshotCount,
+  snapshotTopic,
+  snapshotFrameId,
+  recording,
+  republish,
+  annotations,
+  annotationSourceWidth,
+  annotationSourceHeight,
+  audioMuted,
+  volume,
+  view,
+  quality,
+  codec,
+  selectionStatus,
+  watchdog,
+  jitterBufferTarget,
+  paused,
+  audioMeter,
+  reconnectStatus,
+  client,
+  log: panelLog,
+}: StreamTileProps): React.JSX.Element {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<JanusStream>();
+  // Handle of the stream, for stats and quality requests
+  const streamingRef = useRef<JanusJS.PluginHandle | null>(null);
+  // Mountpoint being watched. Kept in a ref so that switching streams doesn't reopen the stream.
+  const streamIdRef = useRef(streamId);
+  const pinRef = useRef(pin);
+  const codecRef = useRef(codec);
+  const labelRef = useRef(label);
+  labelRef.current = label;
+  const onFrameTimingRef = useRef(onFrameTiming);
+  onFrameTimingRef.current = onFrameTiming;
+
+  // Rolling history of stats samples, the latest last
+  const [statsHistory, setStatsHistory] = useState<StreamStats[]>([]);
+
+  // Timing of the latest presented frame, refreshed a few times per second
+  const [frameTiming, setFrameTiming] = useState<FrameTiming | undefined>();
+  const frameTimingRef = useRef(frameTiming);
+  frameTimingRef.current = frameTiming;
+
+  // Remote audio track, played through the video element and fed to the level meter
+  const [audioTrack, setAudioTrack] = useState<MediaStreamTrack | null>(null);
+  const [audioLevel, setAudioLevel] = useState<number | undefined>();
+
+  // Interactive zoom and pan, reset on double click. Pan is in screen pixels.
+  const tileRef = useRef<HTMLDivElement>(null);
+  const [tileSize, setTileSize] = useState({ width: 0, height: 0 });
+  const [viewport, setViewport] = useState(DEFAULT_VIEWPORT);
+  const dragRef = useRef<{ x: number; y: number; panX: number; panY: number } | undefined>();
+
+  // Layers reported by the plugin, undefined for mountpoints without simulcast or SVC
+  const [layers, setLayers] = useState<StreamLayers | undefined>();
+  // Level chosen by the automatic adaptation
+  const [autoLevel, setAutoLevel] = useState<QualityLevel>(2);
+  const lastAdaptationRef = useRef(0);
+  const qualityLevel = quality === "auto" ? autoLevel : QUALITY_LEVELS[quality];
+
+  const [streamState, setStreamState] = useState<JanusStreamState>({
+    connectionState: ConnectionState.DISCONNECTED,
+    isConnected: false,
+    error: null,
+  });
+
+  // The tile reports the session's state while there is no session to attach to
+  const connectionState = janus ? streamState.connectionState : sessionState;
+  const connectionError = janus ? streamState.error : sessionError;
+
+  const log = useCallback<Log>(
+    (message, type, source = "plugin") => {
+      panelLog(`[${labelRef.current}] ${message}`, type, source);
+    },
+    [panelLog],
+  );
+
+  const publishStatus = useTopicPublisher(
+    context,
+    statusTopic,
+    STATUS_SCHEMA_NAME,
+    STATUS_SCHEMA,
+    log,
+  );
+
+  const publishSnapshot = useTopicPublisher(
+    context,
+    snapshotTopic,
+    COMPRESSED_IMAGE_SCHEMA_NAME,
+    COMPRESSED_IMAGE_SCHEMA,
+    log,
+  );
+  const snapshotCountRef = useRef(snapshotCount);
+
+  const publishFrame = useTopicPublisher(
+    context,
+    republish ? labelTopic(republish.topic, label) : undefined,
+    republish?.encoding === "rgba" ? RAW_IMAGE_SCHEMA_NAME : COMPRESSED_IMAGE_SCHEMA_NAME,
+    republish?.encoding === "rgba" ? RAW_IMAGE_SCHEMA : COMPRESSED_IMAGE_SCHEMA,
+    log,
+  );
+
+  const publishData = useTopicPublisher(context, dataTopic, DATA_SCHEMA_NAME, DATA_SCHEMA, log);
+  // Latest short text received on the data channel
+  const [dataText, setDataText] = useState<string | undefined>();
+
+  // Read by the data channel callback, which lives as long as the plugin handle
+  const handleDataRef = useRef<(data: unknown, channel: string) => Promise<void>>();
+  handleDataRef.current = async (data, channel) => {
+    const content = await payloadContent(data);
+    if (content == undefined) {
+      return;
+    }
+
+    let decoded: DecodedData;
+    try {
+      decoded = decodeData(content, dataEncoding);
+    } catch (error) {
+      log(`Failed to decode data on ${channel}: ${String(error)}`, "warn", "webrtc");
+      return;
+    }
+
+    publishData(
+      dataMessage(decoded, { label: labelRef.current, stream_id: streamIdRef.current, channel }),
+    );
+    if (dataOverlay) {
+      setDataText(dataOverlayText(decoded));
+    }
+  };
+
+  // Latest values for the status messages, read when publishing
+  const statusRef = useRef({
+    connectionState,
+    error: connectionError,
+    isConnected: streamState.isConnected,
+  });
+  statusRef.current = {
+    connectionState,
+    error: connectionError,
+    isConnected: streamState.isConnected,
+  };
+
+  const sendStatus = useCallback(
+    (event: StreamStatus["event"], stats: StreamStats | null) => {
+      const status = statusRef.current;
+      publishStatus(
+        streamStatus({
+          label: labelRef.current,
+          stream_id: streamIdRef.current,
+          event,
+          state: status.connectionState,
+          connected: status.isConnected,
+          error: status.error,
+          stats,
+        }),
+      );
+    },
+    [publishStatus],
+  );
+
+  const updateStreamState = useCallback(
+    (update: Partial<JanusStreamState>) => {
+      setStreamState((currentState) => {
+        // Only log state change if it's actually different
+        if (
+          update.connectionState != undefined &&
+          update.connectionState !== currentState.connectionState
+        ) {
+          log(`Connection state: ${update.connectionState}`, "info");
+        }
+
+        if (
+          update.error != undefined &&
+          (currentState.error == undefined ||
+            update.error.message !== currentState.error.message ||
+            update.error.source !== currentState.error.source)
+        ) {
+          log(
+            `Error (${update.error.source}): ${update.error.message}`,
+            "error",
+            errorLogSource(update.error),
+          );
+        }
+
+        return { ...currentState, ...update };
+      });
+    },
+    [log],
+  );
+
+  const getVideoReceiver = useCallback(() => {
+    // The peer connection only exists while the handle is negotiating or streaming
+    const pc: RTCPeerConnection | undefined = streamingRef.current?.webrtcStuff.pc;
+    return pc ? activeVideoReceiver(pc) : undefined;
+  }, []);
+
+  // Receivers are created per remote track, the latest target is applied to new ones as well
+  const jitterBufferTargetRef = useRef(jitterBufferTarget);
+  jitterBufferTargetRef.current = jitterBufferTarget;
+
+  const applyPlayoutDelay = useCallback(() => {
+    const pc: RTCPeerConnection | undefined = streamingRef.current?.webrtcStuff.pc;
+    if (!pc) {
+      return;
+    }
+    try {
+      if (!applyJitterBufferTarget(pc, jitterBufferTargetRef.current)) {
+        log("Jitter buffer target not supported by this browser", "warn", "webrtc");
+      }
+    } catch (error) {
+      log(`Failed to set jitter buffer target: ${String(error)}`, "warn", "webrtc");
+    }
+  }, [log]);
+
+  // Open a stream on the shared session and start watching. The client detaches it when the
+  // session goes away.
+  useEffect(() => {
+    if (!client || !janus) {
+      updateStreamState({ connectionState: ConnectionState.DISCONNECTED, isConnected: false });
+      return;
+    }
+
+    const stream = client.openStream(
+      {
+        label: labelRef.current,
+        streamId: streamIdRef.current,
+        pin: pinRef.current,
+        codec: codecRef.current,
+      },
+      videoSink(videoRef.current),
+      log,
+    );
+    if (!stream) {
+      return;
+    }
+
+    stream.on("state", updateStreamState);
+    stream.on("handle", (handle) => {
+      streamingRef.current = handle;
+    });
+    stream.on("message", ({ result }) => {
+      if (
+        result &&
+        (result.substream != undefined ||
+          result.temporal != undefined ||
+          result.spatial_layer != undefined ||
+          result.temporal_layer != undefined)
+      ) {
+        setLayers((current) => {
+          const next = {
+            substream: result.substream ?? current?.substream,
+            temporal: result.temporal ?? current?.temporal,
+            spatialLayer: result.spatial_layer ?? current?.spatialLayer,
+            temporalLayer: result.temporal_layer ?? current?.temporalLayer,
+          };
+          log(`Now receiving ${formatLayers(next)}`, "info", "webrtc");
+          return next;
+        });
+      }
+    });
+    stream.on("track", ({ track, on }) => {
+      if (on) {
+        applyPlayoutDelay();
+      }
+      if (track.kind === "audio") {
+        setAudioTrack(on ? track : null);
+      }
+    });
+    stream.on("data", (data, channel) => {
+      void handleDataRef.current?.(data, channel);
+    });
+    stream.on("cleanup", () => {
+      setAudioTrack(null);
+      setLayers(undefined);
+      setDataText(undefined);
+    });
+
+    streamRef.current = stream;
+    stream.start();
+    return () => {
+      stream.dispose();
+      streamRef.current = undefined;
+      streamingRef.current = null;
+    };
+  }, [client, janus, log, updateStreamState, applyPlayoutDelay]);
+
+  // Switch to a newly selected mountpoint, the stream re-attaches if it isn't live
+  useEffect(() => {
+    if (streamId === streamIdRef.current) {
+      return;
+    }
+
+    streamIdRef.current = streamId;
+    streamRef.current?.switchTo(streamId);
+  }, [streamId]);
+
+  // Save the current frame, and publish it when a snapshot topic is set
+  useEffect(() => {
+    if (snapshotCount === snapshotCountRef.current) {
+      return;
+    }
+    snapshotCountRef.current = snapshotCount;
+
+    const video = videoRef.current;
+    if (!video || !streamState.isConnected) {
+      log("No video to take a snapshot of", "warn", "panel");
+      return;
+    }
+
+    // Stamped with the frame's capture time when known, so it lines up with the recording
+    const timestamp = msToTime(frameTimingRef.current?.timeMs ?? Date.now());
+    captureFrame(video)
+      .then(async (blob) => {
+        if (!blob) {
+          log("No video frame to take a snapshot of", "warn", "panel");
+          return;
+        }
+        downloadBlob(blob, captureFileName(labelRef.current, "png"));
+        log("Saved snapshot", "info", "panel");
+        publishSnapshot(await compressedImage(blob, timestamp, snapshotFrameId));
+      })
+      .catch((error: unknown) => {
+        log(`Failed to take snapshot: ${String(error)}`, "error", "panel");
+      });
+  }, [snapshotCount, streamState.isConnected, snapshotFrameId, publishSnapshot, log]);
+
+  // Sample and republish frames while the stream is live
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!republish || !streamState.isConnected || !video) {
+      return;
+    }
+
+    const options = { ...republish, frameId: labelTopic(republish.frameId, label) };
+    const canvas = document.createElement("canvas");
+    // Frames arriving while the previous one is still being encoded are dropped
+    let encoding = false;
+    let failed = false;
+
+    return sampleFrames(video, republish.rate, (timeMs) => {
+      if (encoding) {
+        return;
+      }
+
+      encoding = true;
+      encodeFrame(video, canvas, msToTime(timeMs), options)
+        .then((message) => {
+          if (message != undefined) {
+            publishFrame(message);
+          }
+        })
+        .catch((error: unknown) => {
+          if (!failed) {
+            failed = true;
+            log(`Failed to encode frame: ${String(error)}`, "warn", "panel");
+          }
+        })
+        .finally(() => {
+          encoding = false;
+        });
+    });
+  }, [republish, label, streamState.isConnected, publishFrame, log]);
+
+  // Record while the panel's record toggle is on, a new file starts after each reconnect
+  useEffect(() => {
+    const stream = videoRef.current?.srcObject;
+    if (!recording || !streamState.isConnected || !(stream instanceof MediaStream)) {
+      return;
+    }
+
+    const startedAt = new Date();
+    log("Recording started", "info", "panel");
+    try {
+      return recordStream(stream, (blob) => {
+        downloadBlob(blob, captureFileName(labelRef.current, "webm", startedAt));
+        log("Recording saved", "info", "panel");
+      });
+    } catch (error) {
+      log(`Failed to start recording: ${String(error)}`, "error", "panel");
+      return;
+    }
+  }, [recording, streamState.isConnected, log]);
+
+  // Watch again with the new PIN
+  useEffect(() => {
+    if (pin === pinRef.current) {
+      return;
+    }
+
+    pinRef.current = pin;
+    log("Settings changed, will reconnect with new PIN", "info", "panel");
+    streamRef.current?.configure({ pin });
+  }, [pin, log]);
+
+  // Negotiate again with the new codec preference
+  useEffect(() => {
+    if (codec === codecRef.current) {
+      return;
+    }
+
+    codecRef.current = codec;
+    log(`Settings changed, will reconnect preferring ${codec} video`, "info", "panel");
+    streamRef.current?.configure({ codec });
+  }, [codec, log]);
+
+  // Track the tile size, quarter turned videos are laid out with swapped sides
+  useEffect(() => {
+    const tile = tileRef.current;
+    if (!tile) {
+      return;
+    }
+
+    const observer = new ResizeObserver(() => {
+      setTileSize({ width: tile.clientWidth, height: tile.clientHeight });
+    });
+    observer.observe(tile);
+    return () => {
+      observer.disconnect();
+    };
+  }, []);
+
+  // Zoom towards the cursor. Registered natively, React's wheel listeners can't prevent scrolling.
+  useEffect(() => {
+    const tile = tileRef.current;
+    if (!tile) {
+      return;
+    }
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = tile.getBoundingClientRect();
+      const cursorX = event.clientX - rect.left - rect.width / 2;
+      const cursorY = event.clientY - rect.top - rect.height / 2;
+
+      setViewport((current) => {
+        const zoom = Math.min(
+          Math.max(current.zoom * Math.exp(-event.deltaY * 0.002), 1),
+          MAX_ZOOM,
+        );
+        if (zoom === 1) {
+          return DEFAULT_VIEWPORT;
+        }
+        // Keep the point under the cursor in place
+        const factor = zoom / current.zoom;
+        return {
+          zoom,
+          panX: cursorX - (cursorX - current.panX) * factor,
+          panY: cursorY - (cursorY - current.panY) * factor,
+        };
+      });
+    };
+
+    tile.addEventListener("wheel", onWheel, { passive: false });
+    return () => {
+      tile.removeEventListener("wheel", onWheel);
+    };
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      if (event.button !== 0 || viewport.zoom === 1) {
+        return;
+      }
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = {
+        x: event.clientX,
+        y: event.clientY,
+        panX: viewport.panX,
+        panY: viewport.panY,
+      };
+    },
+    [viewport],
+  );
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    setViewport((current) => ({
+      ...current,
+      panX: drag.panX + event.clientX - drag.x,
+      panY: drag.panY + event.clientY - drag.y,
+    }));
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = undefined;
+  }, []);
+
+  const resetViewport = useCallback(() => {
+    setViewport(DEFAULT_VIEWPORT);
+  }, []);
+
+  // The element carries the audio too, muted unless the user opted in
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.muted = audioMuted;
+      videoRef.current.volume = Math.min(Math.max(volume, 0), 1);
+    }
+  }, [audioMuted, volume]);
+
+  useEffect(() => {
+    if (!audioTrack || !audioMeter) {
+      setAudioLevel(undefined);
+      return;
+    }
+
+    return watchAudioLevel(audioTrack, setAudioLevel);
+  }, [audioTrack, audioMeter]);
+
+  // Follow the timing of presented frames while the stream is live
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!streamState.isConnected || !video) {
+      setFrameTiming(undefined);
+      return;
+    }
+
+    let latest: FrameTiming | undefined;
+    const stopWatching = watchFrameTiming(video, getVideoReceiver, (timing) => {
+      latest = timing;
+      onFrameTimingRef.current?.(timing);
+    });
+
+    // Frames arrive far more often than the overlay needs refreshing
+    const timer = window.setInterval(() => {
+      setFrameTiming(latest);
+    }, 250);
+
+    return () => {
+      stopWatching();
+      window.clearInterval(timer);
+    };
+  }, [streamState.isConnected, getVideoReceiver]);
+
+  // Poll WebRTC statistics while the stream is live
+  useEffect(() => {
+    if (!streamState.isConnected) {
+      setStatsHistory([]);
+      return;
+    }
+
+    let previous: StatsTotals | undefined;
+    let candidatePair: string | undefined;
+    let cancelled = false;
+
+    const updateStats = async () => {
+      const pc: RTCPeerConnection | undefined = streamingRef.current?.webrtcStuff.pc;
+      if (!pc) {
+        return;
+      }
+
+      try {
+        const result = await collectStats(pc, previous);
+        if (cancelled || !result) {
+          return;
+        }
+
+        previous = result.totals;
+        if (
+          result.stats.candidatePair != undefined &&
+          result.stats.candidatePair !== candidatePair
+        ) {
+          candidatePair = result.stats.candidatePair;
+          log(`Selected ICE candidate pair: ${candidatePair}`, "info", "webrtc");
+        }
+        setStatsHistory((history) => [...history, result.stats].slice(-historyLength));
+        sendStatus("stats", result.stats);
+      } catch (e) {
+        log("Error getting stats: " + String(e), "warn", "webrtc");
+      }
+    };
+
+    void updateStats();
+    const timer = window.setInterval(() => void updateStats(), 1000);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [streamState.isConnected, historyLength, sendStatus, log]);
+
+  // Software decoding of large frames is CPU heavy and usually means hardware decoding failed
+  const latestStats = statsHistory[statsHistory.length - 1];
+  const softwareDecoding =
+    latestStats != undefined &&
+    isSoftwareDecoder(latestStats) === true &&
+    (latestStats.width ?? 0) * (latestStats.height ?? 0) >= SOFTWARE_DECODE_WARN_PIXELS;
+
+  useEffect(() => {
+    if (softwareDecoding) {
+      log(
+        "Video is decoded in software at high resolution, expect high CPU load",
+        "warn",
+        "webrtc",
+      );
+    }
+  }, [softwareDecoding, log]);
+
+  // Frozen or black image while the connection itself looks fine
+  const [videoAlarm, setVideoAlarm] = useState<VideoAlarm | undefined>();
+
+  useEffect(() => {
+    const video = videoRef.current;
+    // No frames are presented while paused
+    if (!watchdog.enabled || !streamState.isConnected || paused || !video) {
+      setVideoAlarm(undefined);
+      return;
+    }
+
+    return watchVideo(video, watchdog, (alarm) => {
+      if (alarm) {
+        log(`Video watchdog: ${alarm.message}`, "warn", "webrtc");
+      } else {
+        log("Video watchdog: frames back to normal", "info", "webrtc");
+      }
+      setVideoAlarm(alarm);
+    });
+  }, [watchdog, streamState.isConnected, paused, log]);
+
+  useEffect(() => {
+    if (!streamState.isConnected) {
+      return;
+    }
+    log(
+      `Jitter buffer target: ${jitterBufferTarget != undefined ? `${jitterBufferTarget} ms` : "browser default"}`,
+      "info",
+      "webrtc",
+    );
+    applyPlayoutDelay();
+  }, [jitterBufferTarget, streamState.isConnected, applyPlayoutDelay, log]);
+
+  // Pausing the element holds the last frame, the tracks keep receiving
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!streamState.isConnected || !video) {
+      return;
+    }
+    if (paused) {
+      video.pause();
+    } else if (video.paused) {
+      // Jumps back to live
+      video.play().catch((error: unknown) => {
+        log(`Failed to resume playback: ${String(error)}`, "warn", "webrtc");
+      });
+    }
+  }, [paused, streamState.isConnected, log]);
+
+  // Ask the plugin for the layers of the selected quality
+  useEffect(() => {
+    const handle = streamingRef.current;
+    if (!streamState.isConnected || !handle) {
+      return;
+    }
+
+    log(`Requesting ${quality} quality (level ${qualityLevel})`, "info", "plugin");
+    handle.send({
+      message: configureRequest(qualityLevel),
+      error: (error: string) => {
+        log(`Failed to configure quality: ${error}`, "warn", "plugin");
+      },
+    });
+    lastAdaptationRef.current = Date.now();
+  }, [qualityLevel, quality, streamState.isConnected, log]);
+
+  // Step layers down on loss and dropped frames, and back up once the stream is clean
+  useEffect(() => {
+    if (quality !== "auto" || !layers) {
+      return;
+    }
+    if (Date.now() - lastAdaptationRef.current < ADAPTATION_HOLD_MS) {
+      return;
+    }
+
+    const next = adaptQualityLevel(autoLevel, statsHistory);
+    if (next !== autoLevel) {
+      log(`Adapting quality from level ${autoLevel} to ${next}`, "info", "webrtc");
+      setAutoLevel(next);
+    }
+  }, [quality, layers, autoLevel, statsHistory, log]);
+
+  // Publish every connection state transition and error
+  useEffect(() => {
+    sendStatus("state", null);
+  }, [connectionState, sendStatus]);
+
+  useEffect(() => {
+    if (connectionError) {
+      sendStatus("error", null);
+    }
+  }, [connectionError, sendStatus]);
+
+  // Positive when the frame is ahead of the playback time, negative when the video lags
+  const playbackOffset =
+    frameTiming && currentTime ? frameTiming.timeMs - timeToMs(currentTime) : undefined;
+  const lagging = playbackOffset != undefined && -playbackOffset > lagThreshold;
+
+  // End-to-end with sender capture times, otherwise receive to display plus half the round trip
+  const rtt = latestStats?.rtt;
+  const latency =
+    frameTiming && !paused
+      ? frameTiming.displayDelay + (frameTiming.source === "capture" ? 0 : (rtt ?? 0) / 2)
+      : undefined;
+
+  const matchedAnnotations = useMemo(
+    () => (annotations ? matchAnnotations(annotations, frameTiming?.timeMs) : undefined),
+    [annotations, frameTiming],
+  );
+
+  // Rotated by a quarter turn the box swaps its sides, so the video still fills the tile
+  const quarterTurn = view.rotation === 90 || view.rotation === 270;
+  const viewStyle = {
+    position: "absolute" as const,
+    top: "50%",
+    left: "50%",
+    width: quarterTurn ? `${tileSize.height}px` : "100%",
+    height: quarterTurn ? `${tileSize.width}px` : "100%",
+    transform: viewTransform(view, viewport.zoom, viewport.panX, viewport.panY),
+  };
+
+  const levelMeter =
+    audioLevel != undefined ? (
+      <div style={meterStyle} title={audioMuted ? "Audio level (muted)" : "Audio level"}>
+        <div
+          style={{
+            ...meterLevelStyle,
+            width: `${audioLevel * 100}%`,
+            backgroundColor: audioMuted ? "#888" : audioLevel > 0.9 ? "#ff6b6b" : "#4caf50",
+          }}
+        />
+      </div>
+    ) : undefined;
+
+  const showOverlay =
+    reconnectStatus != undefined ||
+    !janus ||
+    !streamState.isConnected ||
+    streamState.connectionState === ConnectionState.SWITCHING;
+
+  return (
+    <div
+      ref={tileRef}
+      style={{ ...tileStyle, cursor: viewport.zoom > 1 ? "grab" : undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={resetViewport}
+    >
+      <div style={viewStyle}>
+        <video
+          ref={videoRef}
+          style={{ ...videoStyle, objectFit: OBJECT_FIT[view.fit] }}
+          autoPlay
+          playsInline
+          muted={audioMuted}
+        ></video>
+
+        {annotations && streamState.isConnected && (
+          <AnnotationOverlay
+            video={videoRef.current}
+            annotations={matchedAnnotations}
+            sourceWidth={annotationSourceWidth}
+            sourceHeight={annotationSourceHeight}
+            fit={view.fit}
+          />
+        )}
+      </div>
+
+      {showLabel && <div style={labelStyle}>{label}</div>}
+      {selectionStatus != undefined && <div style={selectionStyle}>{selectionStatus}</div>}
+      {paused && streamState.isConnected && <div style={pausedStyle}>Paused</div>}
+      {dataOverlay && dataText != undefined && streamState.isConnected && (
+        <div style={dataTextStyle}>{dataText}</div>
+      )}
+
+      {/* Stats display, with the audio level meter as its first row */}
+      {statsHistory.length > 0 && (
+        <StatsOverlay history={statsHistory} metrics={statsMetrics} sparklines={sparklines}>
+          {levelMeter != undefined && <div style={meterRowStyle}>Audio: {levelMeter}</div>}
+          {server != undefined && <div>Server: {describeServer(server)}</div>}
+          {softwareDecoding && (
+            <div style={{ color: "#feca57" }}>Software decoding at high resolution</div>
+          )}
+          {latency != undefined && frameTiming && (
+            <div>
+              Latency: {frameTiming.source === "capture" ? "" : "~"}
+              {latency.toFixed(0)} ms
+            </div>
+          )}
+          {layers && (
+            <div>
+              Layers: {formatLayers(layers)} ({quality})
+            </div>
+          )}
+          {playbackOffset != undefined && frameTiming && (
+            <div style={{ color: lagging ? "#ff6b6b" : undefined }}>
+              {frameTiming.source === "capture" ? "Capture" : "Receive"} offset:{" "}
+              {playbackOffset >= 0 ? "+" : ""}
+              {playbackOffset.toFixed(0)} ms{lagging ? " (lagging)" : ""}
+            </div>
+          )}
+        </StatsOverlay>
+      )}
+
+      {/* Audio level meter on its own until the first stats sample arrives */}
+      {levelMeter != undefined && statsHistory.length === 0 && (
+        <div style={standaloneMeterStyle}>{levelMeter}</div>
+      )}
+
+      {/* Video watchdog alarm, the status overlay takes precedence */}
+      {videoAlarm && !showOverlay && <div style={alarmStyle}>{videoAlarm.message}</div>}
+
+      {/* Connection status overlay */}
+      <div style={{ ...overlayStyle, display: showOverlay ? "block" : "none" }}>
+        {reconnectStatus ?? overlayText(connectionState, connectionError)}
+        {server != undefined && <div style={serverStyle}>via {describeServer(server)}</div>}
+      </div>
+    </div>
+  );
+}
+
+function overlayText(state: ConnectionState, error: ConnectionError | null): string {
+  if (!error) {
+    return state;
+  }
+  return `${error.source === "auth" ? "Authentication failed" : state}: ${error.message}`;
+}
+
+const DEFAULT_VIEWPORT = { zoom: 1, panX: 0, panY: 0 };
+const MAX_ZOOM = 20;
+
+/** Plays the tracks of a stream through `video`, on a single MediaStream. */
+function videoSink(video: HTMLVideoElement | null): MediaSink {
+  return {
+    addTrack: (track) => {
+      if (!video) {
+        return;
+      }
+      // Use a single MediaStream instance and add/remove tracks as needed
+      // This prevents "interrupted by new load request" errors
+      if (!video.srcObject) {
+        Janus.attachMediaStream(video, new MediaStream());
+      }
+      const stream = video.srcObject as MediaStream;
+      // Remove any existing tracks of the same kind to avoid conflicts
+      for (const existing of stream.getTracks()) {
+        if (existing.kind === track.kind) {
+          stream.removeTrack(existing);
+        }
+      }
+      stream.addTrack(track);
+    },
+
+    removeTrack: (track) => {
+      const stream = video?.srcObject;
+      if (stream instanceof MediaStream) {
+        stream.removeTrack(track);
+      }
+    },
+
+    play: async () => {
+      if (!video) {
+        throw new Error("Video element not found, cannot play track");
+      }
+      await video.play();
+    },
+
+    clear: () => {
+      if (!video) {
+        return;
+      }
+      const stream = video.srcObject;
+      // Clear the video element first, then stop the tracks of the old stream
+      video.pause();
+      video.srcObject = null;
+      if (stream instanceof MediaStream) {
+        for (const track of stream.getTracks()) {
+          track.stop();
+          stream.removeTrack(track);
+        }
+      }
+    },
+  };
+}
+
+// Styles
+const tileStyle = {
+  position: "relative" as const,
+  width: "100%",
+  height: "100%",
+  minHeight: 0,
+  minWidth: 0,
+  overflow: "hidden",
+  backgroundColor: "#000",
+};
+
+const videoStyle = {
+  display: "block",
+  width: "100%",
+  height: "100%",
+};
+
+const labelStyle = {
+  position: "absolute" as const,
+  top: "10px",
+  left: "10px",
+  color: "white",
+  backgroundColor: "rgba(0,0,0,0.5)",
+  padding: "2px 8px",
+  borderRadius: "4px",
+  fontFamily: "sans-serif",
+  fontSize: "12px",
+  zIndex: 10,
+};
+
+const selectionStyle = {
+  ...labelStyle,
+  left: undefined,
+  right: "10px",
+};
+
+const pausedStyle = {
+  ...labelStyle,
+  left: "50%",
+  transform: "translateX(-50%)",
+};
+
+const dataTextStyle = {
+  ...labelStyle,
+  top: undefined,
+  left: "50%",
+  bottom: "40px",
+  transform: "translateX(-50%)",
+  maxWidth: "80%",
+  textAlign: "center" as const,
+};
+
+const overlayStyle = {
+  position: "absolute" as const,
+  top: "50%",
+  left: "50%",
+  transform: "translate(-50%, -50%)",
+  color: "white",
+  backgroundColor: "rgba(0,0,0,0.7)",
+  padding: "10px 20px",
+  borderRadius: "4px",
+  fontFamily: "sans-serif",
+  zIndex: 5,
+};
+
+const alarmStyle = {
+  ...overlayStyle,
+  backgroundColor: "rgba(230,126,34,0.85)",
+  fontWeight: "bold" as const,
+};
+
+const meterStyle = {
+  width: "80px",
+  height: "6px",
+  backgroundColor: "rgba(255,255,255,0.2)",
+  borderRadius: "3px",
+  overflow: "hidden",
+};
+
+const meterRowStyle = {
+  display: "flex",
+  alignItems: "center",
+  gap: "8px",
+};
+
+// Where the stats overlay goes, which takes the meter over once it shows
+const standaloneMeterStyle = {
+  position: "absolute" as const,
+  bottom: "10px",
+  left: "10px",
+  padding: "4px",
+  backgroundColor: "rgba(0,0,0,0.5)",
+  borderRadius: "4px",
+  zIndex: 10,
+};
+
+const meterLevelStyle = {
+  height: "100%",
+  transition: "width 100ms linear",
+};
+
+const serverStyle = {
+  marginTop: "4px",
+  fontSize: "11px",
+  opacity: 0.7,
+};
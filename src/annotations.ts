@@ -0,0 +1,178 @@
+import { MessageEvent, Time } from "@foxglove/extension";
+
+import { timeToMs } from "./frameTiming";
+
+// Subset of foxglove.ImageAnnotations drawn by the overlay, colors are RGBA in [0, 1]
+type Color = { r: number; g: number; b: number; a: number };
+type Point2 = { x: number; y: number };
+
+type CircleAnnotation = {
+  timestamp?: Time;
+  position: Point2;
+  diameter: number;
+  thickness: number;
+  fill_color?: Color;
+  outline_color?: Color;
+};
+
+type PointsAnnotation = {
+  timestamp?: Time;
+  // 1: points, 2: line loop, 3: line strip, 4: line list
+  type: number;
+  points: Point2[];
+  outline_color?: Color;
+  outline_colors?: Color[];
+  fill_color?: Color;
+  thickness: number;
+};
+
+type TextAnnotation = {
+  timestamp?: Time;
+  position: Point2;
+  text: string;
+  font_size: number;
+  text_color?: Color;
+  background_color?: Color;
+};
+
+export type ImageAnnotations = {
+  circles?: CircleAnnotation[];
+  points?: PointsAnnotation[];
+  texts?: TextAnnotation[];
+};
+
+// Maps source image pixel coordinates onto the canvas
+export type ImageTransform = { scaleX: number; scaleY: number; offsetX: number; offsetY: number };
+
+// Messages kept per topic to match against the video frames
+const ANNOTATION_BUFFER_SIZE = 30;
+
+const POINTS_TYPE_POINTS = 1;
+const POINTS_TYPE_LINE_LOOP = 2;
+const POINTS_TYPE_LINE_LIST = 4;
+
+// Time of the image the annotations belong to, the receive time when they carry none
+export function annotationTime(event: MessageEvent<ImageAnnotations>): number {
+  const { circles, points, texts } = event.message;
+  const stamp = circles?.[0]?.timestamp ?? points?.[0]?.timestamp ?? texts?.[0]?.timestamp;
+  return timeToMs(stamp ?? event.receiveTime);
+}
+
+// Appends the received messages to the per topic buffers, dropping the oldest ones
+export function bufferAnnotations(
+  buffers: Record<string, MessageEvent<ImageAnnotations>[]>,
+  events: readonly MessageEvent<ImageAnnotations>[],
+): Record<string, MessageEvent<ImageAnnotations>[]> {
+  const next = { ...buffers };
+  for (const event of events) {
+    next[event.topic] = [...(next[event.topic] ?? []), event].slice(-ANNOTATION_BUFFER_SIZE);
+  }
+  return next;
+}
+
+// Picks the annotations closest in time to the frame on screen, or the latest without frame time
+export function matchAnnotations(
+  events: readonly MessageEvent<ImageAnnotations>[],
+  frameTimeMs: number | undefined,
+): ImageAnnotations | undefined {
+  if (frameTimeMs == undefined) {
+    return events[events.length - 1]?.message;
+  }
+
+  let best: MessageEvent<ImageAnnotations> | undefined;
+  let bestDistance = Infinity;
+  for (const event of events) {
+    const distance = Math.abs(annotationTime(event) - frameTimeMs);
+    if (distance < bestDistance) {
+      best = event;
+      bestDistance = distance;
+    }
+  }
+  return best?.message;
+}
+
+function cssColor(color: Color | undefined, fallback: string): string {
+  if (!color) {
+    return fallback;
+  }
+  const channel = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${color.a})`;
+}
+
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  annotations: ImageAnnotations,
+  { scaleX, scaleY, offsetX, offsetY }: ImageTransform,
+): void {
+  const x = (point: Point2) => offsetX + point.x * scaleX;
+  const y = (point: Point2) => offsetY + point.y * scaleY;
+  // Sizes such as line widths and font sizes
+  const scale = Math.min(scaleX, scaleY);
+
+  for (const circle of annotations.circles ?? []) {
+    ctx.beginPath();
+    ctx.arc(x(circle.position), y(circle.position), (circle.diameter / 2) * scale, 0, 2 * Math.PI);
+    if (circle.fill_color && circle.fill_color.a > 0) {
+      ctx.fillStyle = cssColor(circle.fill_color, "transparent");
+      ctx.fill();
+    }
+    ctx.lineWidth = Math.max(circle.thickness * scale, 1);
+    ctx.strokeStyle = cssColor(circle.outline_color, "white");
+    ctx.stroke();
+  }
+
+  for (const annotation of annotations.points ?? []) {
+    const { points } = annotation;
+    ctx.lineWidth = Math.max(annotation.thickness * scale, 1);
+
+    if (annotation.type === POINTS_TYPE_POINTS) {
+      points.forEach((point, index) => {
+        const color = annotation.outline_colors?.[index] ?? annotation.outline_color;
+        ctx.fillStyle = cssColor(color, "white");
+        ctx.beginPath();
+        ctx.arc(x(point), y(point), ctx.lineWidth, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+      continue;
+    }
+
+    ctx.strokeStyle = cssColor(annotation.outline_color, "white");
+    ctx.beginPath();
+    if (annotation.type === POINTS_TYPE_LINE_LIST) {
+      for (let i = 0; i + 1 < points.length; i += 2) {
+        ctx.moveTo(x(points[i]!), y(points[i]!));
+        ctx.lineTo(x(points[i + 1]!), y(points[i + 1]!));
+      }
+    } else {
+      points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(x(point), y(point));
+        } else {
+          ctx.lineTo(x(point), y(point));
+        }
+      });
+      if (annotation.type === POINTS_TYPE_LINE_LOOP) {
+        ctx.closePath();
+        if (annotation.fill_color && annotation.fill_color.a > 0) {
+          ctx.fillStyle = cssColor(annotation.fill_color, "transparent");
+          ctx.fill();
+        }
+      }
+    }
+    ctx.stroke();
+  }
+
+  for (const text of annotations.texts ?? []) {
+    const fontSize = Math.max(text.font_size * scale, 8);
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = "top";
+    const left = x(text.position);
+    const top = y(text.position);
+    if (text.background_color && text.background_color.a > 0) {
+      ctx.fillStyle = cssColor(text.background_color, "transparent");
+      ctx.fillRect(left, top, ctx.measureText(text.text).width, fontSize);
+    }
+    ctx.fillStyle = cssColor(text.text_color, "white");
+    ctx.fillText(text.text, left, top);
+  }
+}
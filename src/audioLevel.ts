@@ -0,0 +1,41 @@
+// Interval of the level readings, the meter doesn't need to follow every audio frame
+const LEVEL_INTERVAL_MS = 100;
+
+// Levels below this are shown as silence
+const MIN_LEVEL_DB = -60;
+
+/**
+ * Measures the level of an audio track with the Web Audio API and reports it as a value between 0
+ * (silence) and 1 (full scale), on a logarithmic scale. Returns a function to stop measuring.
+ */
+export function watchAudioLevel(
+  track: MediaStreamTrack,
+  onLevel: (level: number) => void,
+): () => void {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  // Browsers start the context suspended until the user interacted with the page
+  void audioContext.resume().catch(() => undefined);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) {
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    const db = rms > 0 ? 20 * Math.log10(rms) : MIN_LEVEL_DB;
+    onLevel(Math.min(Math.max((db - MIN_LEVEL_DB) / -MIN_LEVEL_DB, 0), 1));
+  }, LEVEL_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    source.disconnect();
+    void audioContext.close();
+  };
+}
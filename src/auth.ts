@@ -0,0 +1,17 @@
+// Janus core errors for a wrong or missing API secret or token, and the streaming plugin's error
+// for a wrong mountpoint PIN
+const AUTH_ERROR_CODES = [403, 405, 457];
+
+/**
+ * Whether a Janus error is an authentication failure. janus.js reports most errors as strings,
+ * with the error code embedded ("Ooops: 403 Unauthorized request...") or only the reason.
+ */
+export function isAuthError(message: string, code?: number): boolean {
+  if (code != undefined) {
+    return AUTH_ERROR_CODES.includes(code);
+  }
+  return (
+    AUTH_ERROR_CODES.some((errorCode) => new RegExp(`\\b${errorCode}\\b`).test(message)) ||
+    /unauthori[sz]ed/i.test(message)
+  );
+}
@@ -0,0 +1,75 @@
+import { safeLabel } from "./publish";
+
+// Containers tried for recordings, the first one the browser supports is used
+const RECORDING_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+// Draws the frame currently shown by `video` into a PNG, undefined while there is no frame
+export async function captureFrame(video: HTMLVideoElement): Promise<Blob | undefined> {
+  if (video.videoWidth === 0 || video.videoHeight === 0) {
+    return undefined;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext("2d")?.drawImage(video, 0, 0);
+
+  return await new Promise((resolve) => {
+    canvas.toBlob((blob) => {
+      resolve(blob ?? undefined);
+    }, "image/png");
+  });
+}
+
+/**
+ * Records `stream` into a WebM file until the returned function is called, then hands the
+ * recording to `onDone`.
+ */
+export function recordStream(stream: MediaStream, onDone: (blob: Blob) => void): () => void {
+  const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType != undefined ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  recorder.onstop = () => {
+    onDone(new Blob(chunks, { type: recorder.mimeType }));
+  };
+
+  // Collect data every second so a recording interrupted by an error isn't lost entirely
+  recorder.start(1000);
+
+  return () => {
+    if (recorder.state !== "inactive") {
+      recorder.stop();
+    }
+  };
+}
+
+// Names captures after the stream and the time they were taken, e.g. "front_2024-05-01T12-00-00"
+export function captureFileName(label: string, extension: string, date = new Date()): string {
+  const timestamp = date
+    .toISOString()
+    .replace(/\.\d+Z$/, "")
+    .replace(/:/g, "-");
+  return `${safeLabel(label)}_${timestamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
@@ -0,0 +1,147 @@
+export type VideoCodec = "any" | "H264" | "VP8" | "VP9" | "AV1";
+
+export const VIDEO_CODECS: VideoCodec[] = ["any", "H264", "VP8", "VP9", "AV1"];
+
+// Decoding below this many pixels is cheap enough in software not to warn about it
+export const SOFTWARE_DECODE_WARN_PIXELS = 1280 * 720;
+
+// Decoder implementations browsers report for their software decoders
+const SOFTWARE_DECODERS = /libvpx|ffmpeg|dav1d|libaom|openh264|libgav1/i;
+
+type PayloadFormat = { payloadType: string; codec: string };
+
+// Codec of each payload type listed in an m-section
+function payloadFormats(section: string): PayloadFormat[] {
+  return [...section.matchAll(/^a=rtpmap:(\d+) ([^/\s]+)/gm)].map((match) => ({
+    payloadType: match[1]!,
+    codec: match[2]!,
+  }));
+}
+
+// Splits an SDP into the session part and its m-sections
+function sdpSections(sdp: string): string[] {
+  return sdp.split(/\r\n(?=m=)/);
+}
+
+/** Video codecs listed in the SDP, in order of preference. */
+export function sdpVideoCodecs(sdp: string): string[] {
+  const codecs = new Set<string>();
+  for (const section of sdpSections(sdp).filter((part) => part.startsWith("m=video"))) {
+    const formats = payloadFormats(section);
+    const order = section.split("\r\n")[0]!.split(" ").slice(3);
+    for (const payloadType of order) {
+      const codec = formats.find((format) => format.payloadType === payloadType)?.codec;
+      if (codec != undefined && !/^(rtx|red|ulpfec|flexfec-03)$/i.test(codec)) {
+        codecs.add(codec.toUpperCase());
+      }
+    }
+  }
+  return [...codecs];
+}
+
+export type VideoSection = {
+  mid: string;
+  // Codecs of the m-line in order of preference, a Janus mountpoint offers one per m-line
+  codecs: string[];
+};
+
+/** Mid and codecs of every video m-line in the SDP. */
+export function sdpVideoSections(sdp: string): VideoSection[] {
+  return sdpSections(sdp)
+    .filter((section) => section.startsWith("m=video"))
+    .flatMap((section) => {
+      const mid = /^a=mid:(\S+)/m.exec(section)?.[1];
+      return mid != undefined ? [{ mid, codecs: sdpVideoCodecs(section) }] : [];
+    });
+}
+
+/**
+ * Video m-lines to decline so only `codec` is received. Janus sends the codec of each m-line as
+ * offered and ignores the payload order of the answer, so the preference can only pick between
+ * m-lines. Empty when no m-line offers the codec, as the stream would have no video otherwise.
+ */
+export function declinedVideoMids(sections: VideoSection[], codec: VideoCodec): string[] {
+  if (codec === "any" || !sections.some((section) => section.codecs.includes(codec))) {
+    return [];
+  }
+  return sections
+    .filter((section) => !section.codecs.includes(codec))
+    .map((section) => section.mid);
+}
+
+/** Receiver of the video that is played, skipping the ones of declined m-lines. */
+export function activeVideoReceiver(pc: RTCPeerConnection): RTCRtpReceiver | undefined {
+  return pc
+    .getTransceivers()
+    .find(
+      (transceiver) =>
+        transceiver.receiver.track.kind === "video" &&
+        transceiver.direction !== "inactive" &&
+        transceiver.direction !== "stopped" &&
+        transceiver.currentDirection !== "inactive",
+    )?.receiver;
+}
+
+const H264_PROFILES: Record<string, string> = {
+  "42": "Baseline",
+  "4d": "Main",
+  "58": "Extended",
+  "64": "High",
+  f4: "High 4:4:4",
+};
+
+/** Human readable profile of a codec from its SDP format parameters, e.g. "High 4.0". */
+export function codecProfile(codec: string, fmtp: string | undefined): string | undefined {
+  const parameters = new Map(
+    (fmtp ?? "").split(";").map((parameter) => {
+      const [key = "", value = ""] = parameter.trim().split("=");
+      return [key.toLowerCase(), value];
+    }),
+  );
+
+  switch (codec.toUpperCase()) {
+    case "H264": {
+      const profileLevelId = parameters.get("profile-level-id")?.toLowerCase();
+      if (profileLevelId?.length !== 6) {
+        return undefined;
+      }
+      const profileIdc = profileLevelId.slice(0, 2);
+      // Constraint set 1 turns Baseline into Constrained Baseline
+      const constrained =
+        profileIdc === "42" && (parseInt(profileLevelId.slice(2, 4), 16) & 0x40) !== 0;
+      const level = parseInt(profileLevelId.slice(4, 6), 16) / 10;
+      const profile = H264_PROFILES[profileIdc] ?? `profile ${profileIdc}`;
+      return `${constrained ? "Constrained " : ""}${profile} ${level.toFixed(1)}`;
+    }
+    case "VP9": {
+      const profileId = parameters.get("profile-id");
+      return profileId != undefined ? `Profile ${profileId}` : undefined;
+    }
+    case "AV1": {
+      const profile = parameters.get("profile");
+      return profile != undefined ? `Profile ${profile}` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether the stream is decoded in software, from `powerEfficientDecoder` when the browser exposes
+ * it and the decoder name otherwise. Undefined when neither is known.
+ */
+export function isSoftwareDecoder({
+  decoderImplementation,
+  powerEfficientDecoder,
+}: {
+  decoderImplementation?: string;
+  powerEfficientDecoder?: boolean;
+}): boolean | undefined {
+  if (powerEfficientDecoder != undefined) {
+    return !powerEfficientDecoder;
+  }
+  if (decoderImplementation == undefined || decoderImplementation === "unknown") {
+    return undefined;
+  }
+  return SOFTWARE_DECODERS.test(decoderImplementation);
+}
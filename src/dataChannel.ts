@@ -0,0 +1,130 @@
+import { Time } from "@foxglove/extension";
+
+import { msToTime } from "./frameTiming";
+import { bytesToBase64 } from "./imageMessages";
+
+// How data channel payloads are interpreted, auto picks JSON, text or bytes per message
+export type DataEncoding = "auto" | "text" | "json" | "bytes";
+
+export type DecodedData =
+  | { encoding: "text"; text: string }
+  | { encoding: "json"; text: string; json: unknown }
+  | { encoding: "bytes"; bytes: Uint8Array };
+
+// Longest text shown over the video, longer payloads are only published
+const MAX_OVERLAY_LENGTH = 120;
+
+export const DATA_SCHEMA_NAME = "webrtc_foxglove.DataMessage";
+
+// JSON schema of the messages republished from the data channel
+export const DATA_SCHEMA = {
+  title: DATA_SCHEMA_NAME,
+  type: "object",
+  properties: {
+    timestamp: {
+      type: "object",
+      description: "Receive time",
+      properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+    },
+    label: { type: "string" },
+    stream_id: { type: "integer", description: "Janus mountpoint ID" },
+    channel: { type: "string", description: "Data channel label" },
+    encoding: { type: "string", enum: ["text", "json", "bytes"] },
+    text: { type: ["string", "null"] },
+    json: { description: "Parsed payload for JSON messages" },
+    data: {
+      type: ["string", "null"],
+      contentEncoding: "base64",
+      description: "Raw payload for binary messages",
+    },
+  },
+};
+
+export type DataMessage = {
+  timestamp: Time;
+  label: string;
+  stream_id: number;
+  channel: string;
+  encoding: DecodedData["encoding"];
+  text: string | null;
+  json: unknown;
+  data: string | null;
+};
+
+// Data channel payloads arrive as strings, ArrayBuffers or Blobs depending on the browser
+export async function payloadContent(data: unknown): Promise<string | Uint8Array | undefined> {
+  if (typeof data === "string") {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (data instanceof Blob) {
+    return new Uint8Array(await data.arrayBuffer());
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a payload with the given encoding. In auto mode valid UTF-8 is treated as text, and as
+ * JSON when it parses as an object or array. Throws when a JSON payload doesn't parse.
+ */
+export function decodeData(content: string | Uint8Array, encoding: DataEncoding): DecodedData {
+  if (encoding === "bytes") {
+    return {
+      encoding: "bytes",
+      bytes: typeof content === "string" ? new TextEncoder().encode(content) : content,
+    };
+  }
+
+  let text: string;
+  if (typeof content === "string") {
+    text = content;
+  } else if (encoding === "auto") {
+    try {
+      text = new TextDecoder("utf-8", { fatal: true }).decode(content);
+    } catch {
+      return { encoding: "bytes", bytes: content };
+    }
+  } else {
+    text = new TextDecoder().decode(content);
+  }
+
+  if (encoding === "json") {
+    return { encoding: "json", text, json: JSON.parse(text) };
+  }
+  if (encoding === "auto" && /^\s*[[{]/.test(text)) {
+    try {
+      return { encoding: "json", text, json: JSON.parse(text) };
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return { encoding: "text", text };
+}
+
+export function dataMessage(
+  decoded: DecodedData,
+  fields: { label: string; stream_id: number; channel: string },
+): DataMessage {
+  return {
+    timestamp: msToTime(Date.now()),
+    ...fields,
+    encoding: decoded.encoding,
+    text: decoded.encoding !== "bytes" ? decoded.text : null,
+    json: decoded.encoding === "json" ? decoded.json : null,
+    data: decoded.encoding === "bytes" ? bytesToBase64(decoded.bytes) : null,
+  };
+}
+
+// Text to show over the video, undefined for binary or long payloads
+export function dataOverlayText(decoded: DecodedData): string | undefined {
+  if (decoded.encoding === "bytes") {
+    return undefined;
+  }
+  const text = decoded.text.trim();
+  return text.length > 0 && text.length <= MAX_OVERLAY_LENGTH ? text : undefined;
+}
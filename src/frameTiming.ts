@@ -0,0 +1,102 @@
+import { Time } from "@foxglove/extension";
+
+// Timing of the most recently presented video frame
+export type FrameTiming = {
+  // Unix time in milliseconds the frame was captured at, or received at when the sender doesn't
+  // provide capture times (no abs-capture-time header extension)
+  timeMs: number;
+  source: "capture" | "receive";
+  rtpTimestamp?: number;
+  // Milliseconds from timeMs until the frame was shown
+  displayDelay: number;
+};
+
+// Interval for polling the receiver when the browser lacks requestVideoFrameCallback
+const SYNC_SOURCE_POLL_INTERVAL_MS = 100;
+
+export function timeToMs(time: Time): number {
+  return time.sec * 1000 + time.nsec / 1e6;
+}
+
+export function msToTime(ms: number): Time {
+  const sec = Math.floor(ms / 1000);
+  return { sec, nsec: Math.round((ms - sec * 1000) * 1e6) };
+}
+
+/**
+ * Follows the frames presented by `video` and reports their timing. Capture times come from
+ * requestVideoFrameCallback when available, otherwise the receiver's synchronization sources are
+ * polled for RTP timestamps. Returns a function to stop watching.
+ */
+export function watchFrameTiming(
+  video: HTMLVideoElement,
+  getReceiver: () => RTCRtpReceiver | undefined,
+  onFrame: (timing: FrameTiming) => void,
+): () => void {
+  if ("requestVideoFrameCallback" in HTMLVideoElement.prototype) {
+    let handle = 0;
+
+    const onVideoFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      // Frame metadata is relative to the page's time origin
+      const captureTime = metadata.captureTime ?? metadata.receiveTime;
+      if (captureTime != undefined) {
+        onFrame({
+          timeMs: performance.timeOrigin + captureTime,
+          source: metadata.captureTime != undefined ? "capture" : "receive",
+          rtpTimestamp: metadata.rtpTimestamp,
+          displayDelay: metadata.expectedDisplayTime - captureTime,
+        });
+      }
+      handle = video.requestVideoFrameCallback(onVideoFrame);
+    };
+
+    handle = video.requestVideoFrameCallback(onVideoFrame);
+    return () => {
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+
+  let lastRtpTimestamp: number | undefined;
+  const timer = window.setInterval(() => {
+    const source = getReceiver()?.getSynchronizationSources()[0];
+    if (source == undefined || source.rtpTimestamp === lastRtpTimestamp) {
+      return;
+    }
+
+    // Synchronization source timestamps are already wall clock based
+    lastRtpTimestamp = source.rtpTimestamp;
+    onFrame({
+      timeMs: source.timestamp,
+      source: "receive",
+      rtpTimestamp: source.rtpTimestamp,
+      displayDelay: Date.now() - source.timestamp,
+    });
+  }, SYNC_SOURCE_POLL_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+  };
+}
+
+export const FRAME_TIME_SCHEMA_NAME = "webrtc_foxglove.FrameTime";
+
+// JSON schema of the messages published for each presented frame
+export const FRAME_TIME_SCHEMA = {
+  title: FRAME_TIME_SCHEMA_NAME,
+  type: "object",
+  properties: {
+    timestamp: {
+      type: "object",
+      description: "Capture time of the frame, or its receive time if no capture time is known",
+      properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+    },
+    time_source: { type: "string", enum: ["capture", "receive"] },
+    stream_id: { type: "integer", description: "Janus mountpoint ID" },
+    label: { type: "string" },
+    rtp_timestamp: { type: "integer" },
+    playback_offset_ms: {
+      type: "number",
+      description: "Frame time minus the current playback time, negative when the video lags",
+    },
+  },
+};
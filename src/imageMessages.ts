@@ -0,0 +1,83 @@
+import { Time } from "@foxglove/extension";
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, String.fromCharCode can't take a whole image as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const TIME_SCHEMA = {
+  type: "object",
+  properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+};
+
+export const COMPRESSED_IMAGE_SCHEMA_NAME = "foxglove.CompressedImage";
+
+// JSON schema of foxglove.CompressedImage, the image data is base64 encoded
+export const COMPRESSED_IMAGE_SCHEMA = {
+  title: COMPRESSED_IMAGE_SCHEMA_NAME,
+  type: "object",
+  properties: {
+    timestamp: TIME_SCHEMA,
+    frame_id: { type: "string" },
+    data: { type: "string", contentEncoding: "base64" },
+    format: { type: "string" },
+  },
+};
+
+export const RAW_IMAGE_SCHEMA_NAME = "foxglove.RawImage";
+
+// JSON schema of foxglove.RawImage, the image data is base64 encoded
+export const RAW_IMAGE_SCHEMA = {
+  title: RAW_IMAGE_SCHEMA_NAME,
+  type: "object",
+  properties: {
+    timestamp: TIME_SCHEMA,
+    frame_id: { type: "string" },
+    width: { type: "integer" },
+    height: { type: "integer" },
+    encoding: { type: "string" },
+    step: { type: "integer" },
+    data: { type: "string", contentEncoding: "base64" },
+  },
+};
+
+export async function compressedImage(
+  blob: Blob,
+  timestamp: Time,
+  frameId: string,
+): Promise<{ timestamp: Time; frame_id: string; data: string; format: string }> {
+  return {
+    timestamp,
+    frame_id: frameId,
+    data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+    format: blob.type.replace(/^image\//, ""),
+  };
+}
+
+export function rawImage(
+  image: ImageData,
+  timestamp: Time,
+  frameId: string,
+): {
+  timestamp: Time;
+  frame_id: string;
+  width: number;
+  height: number;
+  encoding: string;
+  step: number;
+  data: string;
+} {
+  return {
+    timestamp,
+    frame_id: frameId,
+    width: image.width,
+    height: image.height,
+    encoding: "rgba8",
+    step: image.width * 4,
+    data: bytesToBase64(new Uint8Array(image.data.buffer)),
+  };
+}
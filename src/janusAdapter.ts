@@ -0,0 +1,61 @@
+import Janus from "janus-gateway";
+import adapter from "webrtc-adapter";
+
+import { JanusAdapter } from "./streamClient";
+import { Log } from "./types";
+
+/**
+ * Adapter running the client on janus-gateway. Janus' own log output is forwarded to `log`, its
+ * debug and warning messages only when `debug` is set.
+ */
+export function janusGatewayAdapter({
+  debug,
+  log,
+}: {
+  debug: boolean;
+  log: Log;
+}): JanusAdapter<Janus> {
+  return {
+    init: async () => {
+      await new Promise<void>((resolve) => {
+        Janus.init({
+          dependencies: Janus.useDefaultDependencies({ adapter }),
+          debug: debug ? "all" : false,
+          callback: () => {
+            resolve();
+          },
+        });
+      });
+
+      // Custom log handlers to override Janus internal debugging
+      Janus.log = (...args) => {
+        if (debug) {
+          log(args.join(" "), "info", "janus");
+        }
+      };
+      Janus.error = (...args) => {
+        log(args.join(" "), "error", "janus");
+      };
+      Janus.warn = (...args) => {
+        if (debug) {
+          log(args.join(" "), "warn", "janus");
+        }
+      };
+    },
+
+    createSession: (options, callbacks) =>
+      new Janus({
+        server: options.server,
+        iceServers: options.iceServers,
+        iceTransportPolicy: options.iceTransportPolicy,
+        keepAlivePeriod: options.keepAlivePeriod,
+        token: options.token,
+        apisecret: options.apiSecret,
+        success: callbacks.success,
+        error: callbacks.error,
+        destroyed: callbacks.destroyed,
+      }),
+
+    randomString: (length) => Janus.randomString(length),
+  };
+}
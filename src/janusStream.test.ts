@@ -0,0 +1,257 @@
+import type { JanusJS } from "janus-gateway";
+import { Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { JanusStream, StreamOptions, StreamOwner } from "./janusStream";
+import { ClientSession } from "./streamClient";
+import { fakeHandle, fakeSink, fakeTrack } from "./testing/fakes";
+import { ConnectionState, StreamingEvent } from "./types";
+
+const OFFER_SDP = [
+  "v=0",
+  "o=- 1 1 IN IP4 127.0.0.1",
+  "s=Mountpoint",
+  "t=0 0",
+  "m=video 9 UDP/TLS/RTP/SAVPF 96",
+  "a=mid:v0",
+  "a=rtpmap:96 VP8/90000",
+  "m=video 9 UDP/TLS/RTP/SAVPF 97",
+  "a=mid:v1",
+  "a=rtpmap:97 H264/90000",
+  "",
+].join("\r\n");
+
+// The streaming plugin's events differ from the generic message type
+function pluginEvent(event: StreamingEvent): JanusJS.Message {
+  return event as unknown as JanusJS.Message;
+}
+
+function setup(options: Partial<StreamOptions> = {}) {
+  const session = { attach: vi.fn(), destroy: vi.fn() } satisfies Record<keyof ClientSession, Mock>;
+  const sink = fakeSink();
+  const owner = { connectionLost: vi.fn(), playing: vi.fn(), closed: vi.fn() } satisfies Record<
+    keyof StreamOwner,
+    Mock
+  >;
+  const stream = new JanusStream({
+    session,
+    opaqueId: "test",
+    options: { label: "cam", streamId: 1, pin: "", codec: "any", ...options },
+    sink,
+    owner,
+    log: vi.fn(),
+  });
+
+  // Completes the latest attach request with a new handle
+  const attach = () => {
+    const pluginOptions = session.attach.mock.lastCall![0] as JanusJS.PluginOptions;
+    const handle = fakeHandle();
+    pluginOptions.success?.(handle as unknown as JanusJS.PluginHandle);
+    return { pluginOptions, handle };
+  };
+
+  // Attaches and plays a video track
+  const play = async () => {
+    const attached = attach();
+    attached.pluginOptions.onremotetrack?.(fakeTrack("video"), "v0", true);
+    await vi.advanceTimersByTimeAsync(100);
+    return attached;
+  };
+
+  return { session, sink, owner, stream, attach, play };
+}
+
+describe("JanusStream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("attaches and watches the mountpoint", () => {
+    const { session, stream, attach } = setup({ streamId: 3, pin: "secret" });
+    const onHandle = vi.fn();
+    stream.on("handle", onHandle);
+
+    stream.start();
+    expect(stream.state.connectionState).toBe(ConnectionState.ATTACHING);
+    expect(session.attach).toHaveBeenCalledWith(
+      expect.objectContaining({ plugin: "janus.plugin.streaming", opaqueId: "test" }),
+    );
+
+    const { handle } = attach();
+    expect(stream.state.connectionState).toBe(ConnectionState.WATCHING);
+    expect(onHandle).toHaveBeenCalledWith(handle);
+    expect(handle.send).toHaveBeenCalledWith({
+      message: { request: "watch", id: 3, pin: "secret" },
+    });
+  });
+
+  it("answers the offer and starts the stream", () => {
+    const { stream, attach } = setup();
+    stream.start();
+    const { pluginOptions, handle } = attach();
+
+    const offer = { type: "offer", sdp: OFFER_SDP } as JanusJS.JSEP;
+    pluginOptions.onmessage?.({}, offer);
+    const answerOptions = handle.createAnswer.mock.lastCall![0] as JanusJS.PluginCreateAnswerParam;
+    expect(answerOptions.jsep).toBe(offer);
+    expect(answerOptions.tracks).toEqual([{ type: "data", capture: false }]);
+
+    const answer = { type: "answer", sdp: "" } as JanusJS.JSEP;
+    answerOptions.success?.(answer);
+    expect(handle.send).toHaveBeenLastCalledWith({ message: { request: "start" }, jsep: answer });
+  });
+
+  it("declines the video m-lines of other codecs", () => {
+    const { stream, attach } = setup({ codec: "H264" });
+    stream.start();
+    const { pluginOptions, handle } = attach();
+
+    pluginOptions.onmessage?.({}, { type: "offer", sdp: OFFER_SDP } as JanusJS.JSEP);
+
+    const answerOptions = handle.createAnswer.mock.lastCall![0] as JanusJS.PluginCreateAnswerParam;
+    expect(answerOptions.tracks).toEqual([
+      { type: "data", capture: false },
+      { type: "video", mid: "v0", capture: false, recv: false },
+    ]);
+  });
+
+  it("plays the remote tracks after a short delay", async () => {
+    const { sink, owner, stream, attach } = setup();
+    stream.start();
+    const { pluginOptions } = attach();
+    const video = fakeTrack("video");
+
+    pluginOptions.onremotetrack?.(video, "v0", true);
+    expect(sink.addTrack).toHaveBeenCalledWith(video);
+    expect(sink.play).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sink.play).toHaveBeenCalledOnce();
+    expect(owner.playing).toHaveBeenCalledOnce();
+    expect(stream.state).toEqual({
+      connectionState: ConnectionState.CONNECTED,
+      isConnected: true,
+      error: null,
+    });
+  });
+
+  it("reports playback errors", async () => {
+    const { sink, owner, stream, attach } = setup();
+    sink.play.mockRejectedValue(new Error("NotAllowedError"));
+    stream.start();
+    attach().pluginOptions.onremotetrack?.(fakeTrack("video"), "v0", true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(owner.playing).not.toHaveBeenCalled();
+    expect(stream.state.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(stream.state.error).toEqual({ source: "playback", message: "NotAllowedError" });
+  });
+
+  it("switches a live stream over to another mountpoint", async () => {
+    const { session, stream, play } = setup();
+    stream.start();
+    const { pluginOptions, handle } = await play();
+
+    stream.switchTo(2);
+    expect(stream.state.connectionState).toBe(ConnectionState.SWITCHING);
+    expect(handle.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: { request: "switch", id: 2 } }),
+    );
+
+    pluginOptions.onmessage?.(pluginEvent({ result: { switched: "ok", id: 2 } }));
+    expect(stream.state.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(stream.streamId).toBe(2);
+    expect(session.attach).toHaveBeenCalledOnce();
+  });
+
+  it("re-attaches when a switch fails", async () => {
+    const { session, stream, play } = setup();
+    stream.start();
+    const { pluginOptions, handle } = await play();
+
+    stream.switchTo(2);
+    pluginOptions.onmessage?.(pluginEvent({ error: "No such mountpoint/stream", error_code: 455 }));
+
+    expect(handle.detach).toHaveBeenCalled();
+    expect(session.attach).toHaveBeenCalledTimes(2);
+    expect(stream.state.connectionState).toBe(ConnectionState.ATTACHING);
+  });
+
+  it("re-attaches to switch a stream that isn't live", () => {
+    const { session, stream, attach } = setup();
+    stream.start();
+    const { handle } = attach();
+
+    stream.switchTo(2);
+
+    expect(handle.detach).toHaveBeenCalled();
+    const { handle: next } = attach();
+    expect(session.attach).toHaveBeenCalledTimes(2);
+    expect(next.send).toHaveBeenCalledWith({
+      message: { request: "watch", id: 2, pin: undefined },
+    });
+  });
+
+  it("ignores the callbacks of replaced handles", async () => {
+    const { sink, owner, stream, play } = setup();
+    stream.start();
+    const { pluginOptions, handle } = await play();
+
+    stream.configure({ pin: "secret" });
+    expect(handle.send).toHaveBeenCalledWith({ message: { request: "stop" } });
+    expect(handle.hangup).toHaveBeenCalled();
+    expect(handle.detach).toHaveBeenCalled();
+    expect(sink.clear).toHaveBeenCalled();
+
+    pluginOptions.oncleanup?.();
+    pluginOptions.iceState?.("failed");
+    expect(owner.connectionLost).not.toHaveBeenCalled();
+    expect(stream.state.connectionState).toBe(ConnectionState.ATTACHING);
+  });
+
+  it("reports a lost connection", async () => {
+    const { owner, stream, play } = setup();
+    stream.start();
+    const { pluginOptions } = await play();
+
+    pluginOptions.iceState?.("disconnected");
+    await vi.advanceTimersByTimeAsync(4999);
+    pluginOptions.iceState?.("connected");
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(owner.connectionLost).not.toHaveBeenCalled();
+
+    pluginOptions.iceState?.("disconnected");
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(owner.connectionLost).toHaveBeenCalledWith("[cam] ICE connection disconnected");
+  });
+
+  it("reports a stream that hung up after playing", async () => {
+    const { owner, stream, play } = setup();
+    stream.start();
+    const { pluginOptions } = await play();
+
+    pluginOptions.oncleanup?.();
+
+    expect(stream.state.connectionState).toBe(ConnectionState.STOPPED);
+    expect(owner.connectionLost).toHaveBeenCalledWith("[cam] Stream hung up");
+  });
+
+  it("detaches handles that attach after it was disposed", () => {
+    const { owner, stream, attach } = setup();
+    const onState = vi.fn();
+    stream.on("state", onState);
+    stream.start();
+
+    stream.dispose();
+    expect(owner.closed).toHaveBeenCalledWith(stream);
+    onState.mockClear();
+
+    const { handle } = attach();
+    expect(handle.detach).toHaveBeenCalled();
+    expect(handle.send).not.toHaveBeenCalled();
+    expect(onState).not.toHaveBeenCalled();
+  });
+});
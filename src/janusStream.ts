@@ -0,0 +1,489 @@
+import type { JanusJS } from "janus-gateway";
+
+import { isAuthError } from "./auth";
+import { VideoCodec, declinedVideoMids, sdpVideoCodecs, sdpVideoSections } from "./codecs";
+import { STREAM_TRANSITIONS, canTransition } from "./stateMachine";
+import type { ClientSession } from "./streamClient";
+import { ConnectionState, JanusStreamState, Log, StreamingEvent } from "./types";
+
+// Plays the remote media of a stream, e.g. through a video element
+export type MediaSink = {
+  // Adds a remote track, replacing the previous one of the same kind
+  addTrack(track: MediaStreamTrack): void;
+  removeTrack(track: MediaStreamTrack): void;
+  play(): Promise<void>;
+  // Stops and drops every track
+  clear(): void;
+};
+
+export type StreamOptions = {
+  // Prefixed to the reasons a lost connection is reported with
+  label: string;
+  streamId: number;
+  pin: string;
+  codec: VideoCodec;
+};
+
+type StreamEvents = {
+  state: (state: JanusStreamState) => void;
+  // The attached plugin handle, null once detached. For stats and settings of the live stream.
+  handle: (handle: JanusJS.PluginHandle | null) => void;
+  // Plugin events without an error, e.g. layer changes
+  message: (event: StreamingEvent) => void;
+  // A remote track turned on or off, after it was added to or removed from the sink
+  track: (event: { track: MediaStreamTrack; on: boolean }) => void;
+  dataopen: (channel: string) => void;
+  data: (data: unknown, channel: string) => void;
+  // The media of the handle was torn down
+  cleanup: () => void;
+};
+
+// What a stream reports to the client that opened it
+export type StreamOwner = {
+  connectionLost: (reason: string) => void;
+  playing: () => void;
+  closed: (stream: JanusStream) => void;
+};
+
+// Lets the browser process a new track before playing it
+const PLAY_DELAY_MS = 100;
+
+// How long ICE may stay "disconnected" before the stream counts as lost
+const ICE_DISCONNECTED_GRACE_MS = 5000;
+
+/**
+ * Watches one mountpoint through a streaming plugin handle of a client's session: attaches, watches,
+ * answers the offer, switches mountpoints and re-attaches when that fails or settings change.
+ * State changes go through the stream state machine and are reported as events.
+ */
+export class JanusStream {
+  #session: ClientSession;
+  #opaqueId: string;
+  #options: StreamOptions;
+  #sink: MediaSink;
+  #owner: StreamOwner;
+  #log: Log;
+  #currentState: JanusStreamState = {
+    connectionState: ConnectionState.DISCONNECTED,
+    isConnected: false,
+    error: null,
+  };
+  #handle: JanusJS.PluginHandle | null = null;
+  #listeners: { [E in keyof StreamEvents]: Set<StreamEvents[E]> } = {
+    state: new Set(),
+    handle: new Set(),
+    message: new Set(),
+    track: new Set(),
+    dataopen: new Set(),
+    data: new Set(),
+    cleanup: new Set(),
+  };
+
+  // Bumped on every attach and teardown, callbacks of earlier handles are ignored
+  #generation = 0;
+  // Whether the current remote video track has started playing
+  #playing = false;
+  #playTimer: ReturnType<typeof setTimeout> | undefined;
+  #iceTimer: ReturnType<typeof setTimeout> | undefined;
+  #disposed = false;
+
+  public constructor({
+    session,
+    opaqueId,
+    options,
+    sink,
+    owner,
+    log,
+  }: {
+    session: ClientSession;
+    opaqueId: string;
+    options: StreamOptions;
+    sink: MediaSink;
+    owner: StreamOwner;
+    log: Log;
+  }) {
+    this.#session = session;
+    this.#opaqueId = opaqueId;
+    this.#options = { ...options };
+    this.#sink = sink;
+    this.#owner = owner;
+    this.#log = log;
+  }
+
+  public get state(): JanusStreamState {
+    return this.#currentState;
+  }
+
+  public get handle(): JanusJS.PluginHandle | null {
+    return this.#handle;
+  }
+
+  public get streamId(): number {
+    return this.#options.streamId;
+  }
+
+  public on<E extends keyof StreamEvents>(event: E, listener: StreamEvents[E]): () => void {
+    this.#listeners[event].add(listener);
+    return () => {
+      this.#listeners[event].delete(listener);
+    };
+  }
+
+  /** Attaches a plugin handle and starts watching. */
+  public start(): void {
+    this.#attach();
+  }
+
+  /** Detaches the handle and watches again with a new one, e.g. after a settings change. */
+  public restart(): void {
+    this.#detach();
+    this.#attach();
+  }
+
+  /** Watches again with the new PIN or codec preference. */
+  public configure(options: Partial<Pick<StreamOptions, "pin" | "codec">>): void {
+    this.#options = { ...this.#options, ...options };
+    this.restart();
+  }
+
+  /**
+   * Switches the live handle over to another mountpoint, re-attaching when the stream isn't live.
+   * The outcome of a switch arrives as a "switched" event or an error, which re-attaches too.
+   */
+  public switchTo(streamId: number): void {
+    if (streamId === this.#options.streamId) {
+      return;
+    }
+    this.#options = { ...this.#options, streamId };
+
+    const handle = this.#handle;
+    if (this.#currentState.connectionState !== ConnectionState.CONNECTED || !handle) {
+      this.#log(`Will reconnect with new streamId: ${streamId}`, "info", "panel");
+      this.restart();
+      return;
+    }
+
+    this.#log(`Switching to stream ${streamId}`);
+    this.#transition({ connectionState: ConnectionState.SWITCHING, error: null });
+    const current = this.#current();
+    handle.send({
+      message: { request: "switch", id: streamId },
+      error: (error: string) => {
+        if (current()) {
+          this.#log(`Switch request failed: ${error}, falling back to reconnect`, "warn");
+          this.restart();
+        }
+      },
+    });
+  }
+
+  /** Detaches the handle for good, no events are reported afterwards. */
+  public dispose(): void {
+    if (this.#disposed) {
+      return;
+    }
+    this.#detach();
+    this.#disposed = true;
+    for (const listeners of Object.values(this.#listeners)) {
+      listeners.clear();
+    }
+    this.#owner.closed(this);
+  }
+
+  #emit<E extends keyof StreamEvents>(event: E, ...args: Parameters<StreamEvents[E]>) {
+    for (const listener of this.#listeners[event]) {
+      (listener as (...values: Parameters<StreamEvents[E]>) => void)(...args);
+    }
+  }
+
+  // Applies a state update, rejecting stream state changes the state machine doesn't allow
+  #transition({ connectionState, ...update }: Partial<JanusStreamState>) {
+    const current = this.#currentState.connectionState;
+    let next = connectionState ?? current;
+    if (!canTransition(STREAM_TRANSITIONS, current, next)) {
+      this.#log(`Ignoring stream state change from "${current}" to "${next}"`, "warn");
+      next = current;
+    }
+
+    this.#currentState = { ...this.#currentState, ...update, connectionState: next };
+    this.#emit("state", this.#currentState);
+  }
+
+  // Whether callbacks of the handle attached now still apply
+  #current(): () => boolean {
+    const generation = this.#generation;
+    return () => generation === this.#generation && !this.#disposed;
+  }
+
+  #connectionLost(reason: string) {
+    this.#owner.connectionLost(`[${this.#options.label}] ${reason}`);
+  }
+
+  #attach() {
+    if (this.#disposed) {
+      return;
+    }
+    this.#generation += 1;
+    const current = this.#current();
+    this.#transition({ connectionState: ConnectionState.ATTACHING });
+
+    this.#session.attach({
+      plugin: "janus.plugin.streaming",
+      opaqueId: this.#opaqueId,
+
+      success: (pluginHandle) => {
+        // Torn down before the attach completed
+        if (!current()) {
+          pluginHandle.detach();
+          return;
+        }
+        this.#log("Successfully attached to streaming plugin");
+        this.#handle = pluginHandle;
+        this.#emit("handle", pluginHandle);
+        this.#watch(pluginHandle);
+      },
+
+      error: (error: string) => {
+        if (current()) {
+          this.#transition({
+            connectionState: ConnectionState.DISCONNECTED,
+            error: { source: isAuthError(error) ? "auth" : "plugin", message: String(error) },
+          });
+        }
+      },
+
+      onmessage: (msg: JanusJS.Message, jsep?: JanusJS.JSEP) => {
+        if (current()) {
+          this.#handleMessage(msg as StreamingEvent, jsep, current);
+        }
+      },
+
+      ondataopen: (channel: string) => {
+        if (current()) {
+          this.#log(`Data channel ${channel} open`, "info", "webrtc");
+          this.#emit("dataopen", channel);
+        }
+      },
+      ondata: (data: unknown, channel: string) => {
+        if (current()) {
+          this.#emit("data", data, channel);
+        }
+      },
+
+      // ICE "disconnected" often recovers by itself, only "failed" is final
+      iceState: (state) => {
+        if (!current()) {
+          return;
+        }
+        clearTimeout(this.#iceTimer);
+        if (state === "failed") {
+          this.#connectionLost("ICE connection failed");
+        } else if (state === "disconnected") {
+          this.#log("ICE connection disconnected, waiting for it to recover", "warn", "webrtc");
+          this.#iceTimer = setTimeout(() => {
+            if (current()) {
+              this.#connectionLost("ICE connection disconnected");
+            }
+          }, ICE_DISCONNECTED_GRACE_MS);
+        }
+      },
+
+      // eslint-disable-next-line @foxglove/no-boolean-parameters
+      onremotetrack: (track: MediaStreamTrack, _mid: string, on: boolean) => {
+        if (current()) {
+          this.#handleTrack(track, { on }, current);
+        }
+      },
+
+      oncleanup: () => {
+        if (!current()) {
+          return;
+        }
+        const wasPlaying = this.#playing;
+        this.#playing = false;
+        this.#sink.clear();
+        this.#emit("cleanup");
+        this.#transition({ connectionState: ConnectionState.STOPPED, isConnected: false });
+        if (wasPlaying) {
+          this.#connectionLost("Stream hung up");
+        }
+      },
+    });
+  }
+
+  #watch(handle: JanusJS.PluginHandle) {
+    this.#transition({ connectionState: ConnectionState.WATCHING });
+    const { streamId, pin } = this.#options;
+    handle.send({ message: { request: "watch", id: streamId, pin: pin !== "" ? pin : undefined } });
+  }
+
+  #handleMessage(event: StreamingEvent, jsep: JanusJS.JSEP | undefined, current: () => boolean) {
+    if (event.error != undefined) {
+      if (this.#currentState.connectionState === ConnectionState.SWITCHING) {
+        this.#log(`Switch failed: ${event.error}, falling back to reconnect`, "warn");
+        this.restart();
+        return;
+      }
+
+      this.#transition({
+        error: {
+          source: isAuthError(event.error, event.error_code) ? "auth" : "stream",
+          message: event.error,
+        },
+      });
+      return;
+    }
+
+    this.#emit("message", event);
+
+    if (event.result?.switched === "ok") {
+      this.#log(`Switched to stream ${event.result.id ?? this.#options.streamId}`);
+      this.#transition({ connectionState: ConnectionState.CONNECTED, error: null });
+      return;
+    }
+
+    const handle = this.#handle;
+    if (jsep && handle) {
+      this.#answer(handle, jsep, current);
+    }
+  }
+
+  // The codec is picked by declining the video m-lines of the other codecs
+  #answer(handle: JanusJS.PluginHandle, jsep: JanusJS.JSEP, current: () => boolean) {
+    const preferred = this.#options.codec;
+    const offered = sdpVideoCodecs(jsep.sdp ?? "");
+    const declined = declinedVideoMids(sdpVideoSections(jsep.sdp ?? ""), preferred);
+    if (preferred === "any") {
+      this.#log(`Offered video codecs: ${offered.join(", ")}`, "info", "webrtc");
+    } else if (!offered.includes(preferred)) {
+      this.#log(`${preferred} not offered, using ${offered.join(", ")}`, "warn", "webrtc");
+    } else if (declined.length > 0) {
+      this.#log(
+        `Receiving ${preferred}, declining video mids ${declined.join(", ")}`,
+        "info",
+        "webrtc",
+      );
+    } else {
+      this.#log(`Only ${offered.join(", ")} offered, nothing to choose from`, "info", "webrtc");
+    }
+
+    handle.createAnswer({
+      jsep,
+      tracks: [
+        { type: "data", capture: false },
+        ...declined.map((mid) => ({ type: "video" as const, mid, capture: false, recv: false })),
+      ],
+      media: { audioSend: false, videoSend: false },
+
+      success: (answer: JanusJS.JSEP) => {
+        if (current()) {
+          handle.send({ message: { request: "start" }, jsep: answer });
+        }
+      },
+
+      error: (error: unknown) => {
+        if (current()) {
+          this.#transition({
+            connectionState: ConnectionState.DISCONNECTED,
+            error: {
+              source: "webrtc",
+              message: error instanceof Error ? error.message : String(error),
+            },
+          });
+        }
+      },
+    });
+  }
+
+  #handleTrack(track: MediaStreamTrack, { on }: { on: boolean }, current: () => boolean) {
+    if (!on) {
+      if (track.kind === "video") {
+        this.#playing = false;
+        this.#transition({ connectionState: ConnectionState.STOPPED, isConnected: false });
+      } else if (track.kind === "audio") {
+        this.#sink.removeTrack(track);
+      }
+      this.#emit("track", { track, on });
+      this.#log(`Track ${track.id} is off, skipping processing`, "info", "webrtc");
+      return;
+    }
+
+    if (track.kind !== "video" && track.kind !== "audio") {
+      return;
+    }
+
+    this.#log(`Received ${track.kind} track: ${track.id}`, "info", "webrtc");
+    this.#sink.addTrack(track);
+    this.#emit("track", { track, on });
+
+    // Only attempt to play if we haven't successfully connected yet
+    if (this.#playing) {
+      return;
+    }
+
+    this.#log(`Playing ${track.kind} track: ${track.id}`, "info", "webrtc");
+    clearTimeout(this.#playTimer);
+    this.#playTimer = setTimeout(() => {
+      this.#playTimer = undefined;
+      this.#sink
+        .play()
+        .then(() => {
+          if (!current()) {
+            return;
+          }
+          this.#playing = true;
+          this.#owner.playing();
+          this.#transition({
+            connectionState: ConnectionState.CONNECTED,
+            isConnected: true,
+            error: null,
+          });
+        })
+        .catch((error: unknown) => {
+          if (!current()) {
+            return;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          // If it's just the interrupted error, we can ignore it as we'll try again
+          if (message.includes("interrupted by a new load request")) {
+            this.#log("Play interrupted, will retry automatically", "warn", "webrtc");
+          } else {
+            this.#transition({
+              connectionState: ConnectionState.DISCONNECTED,
+              error: { source: "playback", message },
+            });
+          }
+        });
+    }, PLAY_DELAY_MS);
+  }
+
+  // Stops watching and detaches the handle, the sink is cleared either way
+  #detach() {
+    this.#generation += 1;
+    this.#playing = false;
+    clearTimeout(this.#playTimer);
+    clearTimeout(this.#iceTimer);
+    this.#playTimer = undefined;
+    this.#iceTimer = undefined;
+
+    const handle = this.#handle;
+    this.#handle = null;
+    this.#sink.clear();
+    // Handles are already gone if the session was destroyed
+    if (handle && !handle.detached) {
+      this.#log("Stopping stream");
+      handle.send({ message: { request: "stop" } });
+      handle.hangup();
+      handle.detach({
+        error: (error: string) => {
+          this.#log(`Error detaching streaming plugin: ${error}`, "warn");
+        },
+      });
+    }
+    if (handle) {
+      this.#emit("handle", null);
+    }
+    this.#emit("cleanup");
+    this.#transition({ isConnected: false });
+  }
+}
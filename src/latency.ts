@@ -0,0 +1,55 @@
+export type LatencyMode = "minimum" | "default" | "smooth" | "custom";
+
+// Trade-off between delay and smoothness of the received media
+export type PlayoutSettings = {
+  latency: LatencyMode;
+  // Jitter buffer target in milliseconds, for the custom mode
+  targetDelay: number;
+};
+
+export const DEFAULT_PLAYOUT_SETTINGS: PlayoutSettings = {
+  latency: "default",
+  targetDelay: 200,
+};
+
+// Browsers reject jitter buffer targets outside of this range
+export const MAX_TARGET_DELAY_MS = 4000;
+
+const SMOOTH_TARGET_DELAY_MS = 500;
+
+/** Jitter buffer target of the settings in milliseconds, null to leave it to the browser. */
+export function jitterBufferTarget(settings: PlayoutSettings): number | null {
+  switch (settings.latency) {
+    case "minimum":
+      return 0;
+    case "default":
+      return null;
+    case "smooth":
+      return SMOOTH_TARGET_DELAY_MS;
+    case "custom":
+      return Math.min(Math.max(settings.targetDelay, 0), MAX_TARGET_DELAY_MS);
+  }
+}
+
+// Older Chrome versions only have the non-standard hint, in seconds
+type LegacyReceiver = RTCRtpReceiver & { playoutDelayHint?: number | null };
+
+/**
+ * Sets the jitter buffer target of every receiver of `pc`. Returns false when the browser supports
+ * neither jitterBufferTarget nor playoutDelayHint.
+ */
+export function applyJitterBufferTarget(pc: RTCPeerConnection, target: number | null): boolean {
+  const standard = "jitterBufferTarget" in RTCRtpReceiver.prototype;
+  if (!standard && !("playoutDelayHint" in RTCRtpReceiver.prototype)) {
+    return false;
+  }
+
+  for (const receiver of pc.getReceivers() as LegacyReceiver[]) {
+    if (standard) {
+      receiver.jitterBufferTarget = target;
+    } else {
+      receiver.playoutDelayHint = target != undefined ? target / 1000 : null;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,52 @@
+import { ConnectionError, LogEntry, LogSource } from "./types";
+
+export const LOG_SOURCES: LogSource[] = ["janus", "plugin", "webrtc", "panel"];
+
+const STORAGE_KEY_PREFIX = "webrtc-foxglove.logs.";
+
+// Log source of a connection error
+export function errorLogSource(error: ConnectionError): LogSource {
+  switch (error.source) {
+    case "janus":
+    case "auth":
+      return "janus";
+    case "plugin":
+    case "stream":
+      return "plugin";
+    case "webrtc":
+    case "playback":
+      return "webrtc";
+  }
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+  return `${new Date(entry.time).toISOString()} [${entry.type}] [${entry.source}] ${entry.message}`;
+}
+
+export function exportLogs(entries: LogEntry[], format: "log" | "json"): Blob {
+  return format === "json"
+    ? new Blob([JSON.stringify(entries, undefined, 2)], { type: "application/json" })
+    : new Blob([entries.map(formatLogEntry).join("\n") + "\n"], { type: "text/plain" });
+}
+
+// Stored entries of a panel, empty when there are none or storage isn't available
+export function loadLogs(storageId: string): LogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + storageId);
+    return stored != undefined ? (JSON.parse(stored) as LogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLogs(storageId: string, entries: LogEntry[] | undefined): void {
+  try {
+    if (entries) {
+      localStorage.setItem(STORAGE_KEY_PREFIX + storageId, JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + storageId);
+    }
+  } catch {
+    // Quota exceeded or storage disabled, the log still works in memory
+  }
+}
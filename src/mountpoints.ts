@@ -0,0 +1,86 @@
+import { SettingsTreeFields } from "@foxglove/extension";
+
+import { Mountpoint, MountpointInfo } from "./types";
+
+function mountpointLabel(mountpoint: Mountpoint): string {
+  const codecs = (mountpoint.media ?? [])
+    .map((media) => media.codec)
+    .filter((codec): codec is string => codec != undefined);
+  const name = mountpoint.description ?? `Stream ${mountpoint.id}`;
+  const details = [`#${mountpoint.id}`, ...codecs];
+  if (mountpoint.enabled === false) {
+    details.push("disabled");
+  }
+  return `${name} (${details.join(", ")})`;
+}
+
+// Read-only settings fields describing the selected mountpoint
+export function mountpointInfoFields(info: MountpointInfo | null): SettingsTreeFields {
+  if (!info) {
+    return {
+      status: { label: "Status", input: "string", value: "No info available", readonly: true },
+    };
+  }
+
+  const fields: SettingsTreeFields = {
+    id: { label: "ID", input: "string", value: String(info.id), readonly: true },
+    name: { label: "Name", input: "string", value: info.name ?? "", readonly: true },
+    description: {
+      label: "Description",
+      input: "string",
+      value: info.description ?? "",
+      readonly: true,
+    },
+    type: { label: "Type", input: "string", value: info.type ?? "", readonly: true },
+    enabled: {
+      label: "Enabled",
+      input: "string",
+      value: info.enabled === false ? "No" : "Yes",
+      readonly: true,
+    },
+  };
+
+  if (info.viewers != undefined) {
+    fields.viewers = {
+      label: "Viewers",
+      input: "string",
+      value: String(info.viewers),
+      readonly: true,
+    };
+  }
+
+  if (info.metadata != undefined) {
+    fields.metadata = { label: "Metadata", input: "string", value: info.metadata, readonly: true };
+  }
+
+  (info.media ?? []).forEach((media, index) => {
+    const codec = media.codec != undefined ? ` (${media.codec})` : "";
+    fields[`media${index}`] = {
+      label: `Media ${media.mid ?? index}`,
+      input: "string",
+      value: `${media.type ?? "unknown"}${codec}${media.label != undefined ? ` - ${media.label}` : ""}`,
+      readonly: true,
+    };
+  });
+
+  return fields;
+}
+
+// Options for a stream select field. The configured stream stays selectable even if the server
+// doesn't list it (yet).
+export function streamOptions(
+  mountpoints: Mountpoint[],
+  streamId: number,
+): Array<{ label: string; value: number; disabled: boolean }> {
+  const options = mountpoints.map((mountpoint) => ({
+    label: mountpointLabel(mountpoint),
+    value: mountpoint.id,
+    disabled: mountpoint.enabled === false,
+  }));
+
+  if (!mountpoints.some((mountpoint) => mountpoint.id === streamId)) {
+    options.unshift({ label: `Stream ${streamId}`, value: streamId, disabled: false });
+  }
+
+  return options;
+}
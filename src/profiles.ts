@@ -0,0 +1,187 @@
+import Janus from "janus-gateway";
+import { useEffect, useState } from "react";
+
+import { IceServerEntry, PanelState } from "./types";
+
+// Connection settings a profile provides, each panel may override parts of them
+export type ConnectionSettings = {
+  serverUrl: string;
+  token: string;
+  apiSecret: string;
+  ice: PanelState["ice"];
+};
+
+export type ConnectionProfile = ConnectionSettings & {
+  name: string;
+  // Stream a panel switches to when it selects the profile
+  streamId: number;
+};
+
+const STORAGE_KEY = "webrtc-foxglove.profiles";
+
+// Panels of this window are notified directly, the storage event only reaches other windows
+const listeners = new Set<(profiles: ConnectionProfile[]) => void>();
+
+function iceServerEntry(value: unknown): IceServerEntry | undefined {
+  if (typeof value !== "object" || value == undefined) {
+    return undefined;
+  }
+  const entry = value as Partial<Record<keyof IceServerEntry, unknown>>;
+  if (typeof entry.urls !== "string") {
+    return undefined;
+  }
+  return {
+    id: typeof entry.id === "string" ? entry.id : Janus.randomString(8),
+    urls: entry.urls,
+    username: typeof entry.username === "string" ? entry.username : "",
+    credential: typeof entry.credential === "string" ? entry.credential : "",
+  };
+}
+
+// Profile from untrusted JSON, missing fields get defaults. Undefined without a name.
+function connectionProfile(value: unknown): ConnectionProfile | undefined {
+  if (typeof value !== "object" || value == undefined) {
+    return undefined;
+  }
+  const profile = value as Partial<Record<keyof ConnectionProfile, unknown>>;
+  if (typeof profile.name !== "string" || profile.name.trim() === "") {
+    return undefined;
+  }
+  const ice = (profile.ice ?? {}) as { transportPolicy?: unknown; servers?: unknown };
+  return {
+    name: profile.name.trim(),
+    serverUrl: typeof profile.serverUrl === "string" ? profile.serverUrl : "",
+    token: typeof profile.token === "string" ? profile.token : "",
+    apiSecret: typeof profile.apiSecret === "string" ? profile.apiSecret : "",
+    ice: {
+      transportPolicy: ice.transportPolicy === "relay" ? "relay" : "all",
+      servers: Array.isArray(ice.servers)
+        ? ice.servers.flatMap((server) => iceServerEntry(server) ?? [])
+        : [],
+    },
+    streamId: typeof profile.streamId === "number" ? profile.streamId : 1,
+  };
+}
+
+/**
+ * Profiles in a JSON export, either an array or an object with a `profiles` array. Throws when the
+ * text isn't JSON or holds no profiles, entries without a name are skipped.
+ */
+export function parseProfiles(text: string): ConnectionProfile[] {
+  const json = JSON.parse(text) as unknown;
+  const entries = Array.isArray(json)
+    ? (json as unknown[])
+    : (json as { profiles?: unknown } | null)?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new Error("Expected an array of connection profiles");
+  }
+  return entries.flatMap((entry) => connectionProfile(entry) ?? []);
+}
+
+export function exportProfiles(profiles: ConnectionProfile[]): Blob {
+  return new Blob([JSON.stringify({ profiles }, undefined, 2)], { type: "application/json" });
+}
+
+// Adds `updates` to `profiles`, replacing profiles of the same name
+export function mergeProfiles(
+  profiles: ConnectionProfile[],
+  updates: ConnectionProfile[],
+): ConnectionProfile[] {
+  const names = new Set(updates.map((profile) => profile.name));
+  return [...profiles.filter((profile) => !names.has(profile.name)), ...updates];
+}
+
+// Name not taken by any of `profiles`, numbered like "Robot 1 (2)" when `name` is
+export function uniqueProfileName(profiles: ConnectionProfile[], name: string): string {
+  const names = new Set(profiles.map((profile) => profile.name));
+  let unique = name;
+  for (let index = 2; names.has(unique); index++) {
+    unique = `${name} (${index})`;
+  }
+  return unique;
+}
+
+/**
+ * Connection settings of a panel using `profile`. The panel's own settings are used for the parts
+ * it overrides, and for everything when the profile doesn't exist (anymore).
+ */
+export function resolveConnection(
+  panel: ConnectionSettings,
+  profile: ConnectionProfile | undefined,
+  overrides: Pick<PanelState["profile"], "overrideServer" | "overrideAuth" | "overrideIce">,
+): ConnectionSettings {
+  if (!profile) {
+    return panel;
+  }
+  return {
+    serverUrl: overrides.overrideServer ? panel.serverUrl : profile.serverUrl,
+    token: overrides.overrideAuth ? panel.token : profile.token,
+    apiSecret: overrides.overrideAuth ? panel.apiSecret : profile.apiSecret,
+    ice: overrides.overrideIce ? panel.ice : profile.ice,
+  };
+}
+
+// Stored profiles, empty when there are none or storage isn't available
+export function loadProfiles(): ConnectionProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored != undefined ? parseProfiles(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Stores the profiles and hands them to every panel of this extension. */
+export function saveProfiles(profiles: ConnectionProfile[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ profiles }));
+  } catch {
+    // Quota exceeded or storage disabled, the profiles are still shared until reload
+  }
+  for (const listener of listeners) {
+    listener(profiles);
+  }
+}
+
+/** Profiles shared by all panels, updated when any panel or window changes them. */
+export function useConnectionProfiles(): ConnectionProfile[] {
+  const [profiles, setProfiles] = useState(loadProfiles);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setProfiles(loadProfiles());
+      }
+    };
+
+    listeners.add(setProfiles);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      listeners.delete(setProfiles);
+      window.removeEventListener("storage", handleStorage);
+    };
+  }, []);
+
+  return profiles;
+}
+
+// Lets the user pick a file, resolves with its text or undefined when nothing was picked
+export async function openTextFile(accept: string): Promise<string | undefined> {
+  return await new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) {
+        file.text().then(resolve, reject);
+      } else {
+        resolve(undefined);
+      }
+    };
+    input.oncancel = () => {
+      resolve(undefined);
+    };
+    input.click();
+  });
+}
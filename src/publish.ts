@@ -0,0 +1,80 @@
+import { PanelExtensionContext } from "@foxglove/extension";
+import { useCallback, useEffect, useRef } from "react";
+
+import { Log } from "./types";
+
+// Stream label reduced to characters safe for topic and file names
+export function safeLabel(label: string): string {
+  const name = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return name === "" ? "stream" : name;
+}
+
+// Replaces "{label}" in the topic template with a topic-safe version of the stream label
+export function labelTopic(template: string, label: string): string {
+  return template.replace(/\{label\}/g, safeLabel(label));
+}
+
+/**
+ * Advertises `topic` for as long as it is set and returns a function publishing to it. Publishing
+ * is a no-op while no topic is set or when the data source doesn't support publishing.
+ *
+ * The JSON schema is handed to the data source for servers that accept JSON encoded messages.
+ */
+export function useTopicPublisher(
+  context: PanelExtensionContext,
+  topic: string | undefined,
+  schemaName: string,
+  schema: Record<string, unknown>,
+  log: Log,
+): (message: unknown) => void {
+  const advertisedRef = useRef<string | undefined>(undefined);
+  // Only report the first publish error for each advertisement to avoid flooding the log
+  const failedRef = useRef(false);
+
+  useEffect(() => {
+    if (topic == undefined || topic === "" || !context.advertise) {
+      return;
+    }
+
+    try {
+      context.advertise(topic, schemaName, {
+        schemaEncoding: "jsonschema",
+        schema: JSON.stringify(schema),
+      });
+      advertisedRef.current = topic;
+      failedRef.current = false;
+      log(`Advertised ${topic} (${schemaName})`, "info", "panel");
+    } catch (error) {
+      log(`Failed to advertise ${topic}: ${String(error)}`, "warn", "panel");
+      return;
+    }
+
+    return () => {
+      advertisedRef.current = undefined;
+      context.unadvertise?.(topic);
+    };
+  }, [context, topic, schemaName, schema, log]);
+
+  return useCallback(
+    (message: unknown) => {
+      const advertised = advertisedRef.current;
+      if (advertised == undefined || !context.publish) {
+        return;
+      }
+
+      try {
+        context.publish(advertised, message);
+      } catch (error) {
+        if (!failedRef.current) {
+          failedRef.current = true;
+          log(`Failed to publish on ${advertised}: ${String(error)}`, "warn", "panel");
+        }
+      }
+    },
+    [context, log],
+  );
+}
@@ -0,0 +1,97 @@
+import { StreamStats } from "./stats";
+
+export type QualityMode = "auto" | "high" | "medium" | "low";
+
+// 0 is the lowest layer
+export type QualityLevel = 0 | 1 | 2;
+
+export const QUALITY_MODES: QualityMode[] = ["auto", "high", "medium", "low"];
+
+export const QUALITY_LEVELS: Record<Exclude<QualityMode, "auto">, QualityLevel> = {
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+// Simulcast or SVC layers currently relayed, as reported by the streaming plugin
+export type StreamLayers = {
+  substream?: number;
+  temporal?: number;
+  spatialLayer?: number;
+  temporalLayer?: number;
+};
+
+// Automatic adaptation thresholds, over the last few stats samples
+const DOWNGRADE_PACKET_LOSS = 5;
+const DOWNGRADE_DROP_RATIO = 0.1;
+const UPGRADE_PACKET_LOSS = 1;
+const DOWNGRADE_SAMPLES = 3;
+const UPGRADE_SAMPLES = 10;
+// Let a layer change settle before judging it
+export const ADAPTATION_HOLD_MS = 5000;
+
+/**
+ * Streaming plugin "configure" request selecting the layers of a quality level. Both the simulcast
+ * and the SVC parameters are set, the plugin uses the ones matching the mountpoint.
+ */
+export function configureRequest(level: QualityLevel): { request: string; [key: string]: unknown } {
+  // The lowest level also halves the frame rate
+  const temporal = level === 0 ? 1 : 2;
+  return {
+    request: "configure",
+    substream: level,
+    temporal,
+    spatial_layer: level,
+    temporal_layer: temporal,
+  };
+}
+
+function averagePacketLoss(samples: StreamStats[]): number {
+  return samples.reduce((sum, stats) => sum + (stats.packetLoss ?? 0), 0) / samples.length;
+}
+
+// Fraction of frames dropped between the first and the last sample
+function dropRatio(samples: StreamStats[]): number {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  if (!first || !last) {
+    return 0;
+  }
+  const dropped = (last.framesDropped ?? 0) - (first.framesDropped ?? 0);
+  const decoded = (last.framesDecoded ?? 0) - (first.framesDecoded ?? 0);
+  return dropped + decoded > 0 ? dropped / (dropped + decoded) : 0;
+}
+
+/**
+ * Level to use next in auto mode: one lower when the recent samples show loss or dropped frames,
+ * one higher after a longer clean stretch.
+ */
+export function adaptQualityLevel(level: QualityLevel, history: StreamStats[]): QualityLevel {
+  const recent = history.slice(-DOWNGRADE_SAMPLES);
+  if (
+    level > 0 &&
+    recent.length === DOWNGRADE_SAMPLES &&
+    (averagePacketLoss(recent) > DOWNGRADE_PACKET_LOSS || dropRatio(recent) > DOWNGRADE_DROP_RATIO)
+  ) {
+    return (level - 1) as QualityLevel;
+  }
+
+  const stable = history.slice(-UPGRADE_SAMPLES);
+  if (
+    level < 2 &&
+    stable.length === UPGRADE_SAMPLES &&
+    stable.every((stats) => (stats.packetLoss ?? 0) < UPGRADE_PACKET_LOSS) &&
+    dropRatio(stable) === 0
+  ) {
+    return (level + 1) as QualityLevel;
+  }
+
+  return level;
+}
+
+export function formatLayers(layers: StreamLayers): string {
+  if (layers.spatialLayer != undefined || layers.temporalLayer != undefined) {
+    return `spatial ${layers.spatialLayer ?? "?"}, temporal ${layers.temporalLayer ?? "?"}`;
+  }
+  return `substream ${layers.substream ?? "?"}, temporal ${layers.temporal ?? "?"}`;
+}
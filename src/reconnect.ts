@@ -0,0 +1,46 @@
+// Automatic reconnection settings, stored in the panel state
+export type ReconnectSettings = {
+  enabled: boolean;
+  // Give up after this many consecutive attempts, 0 retries forever
+  maxAttempts: number;
+  // Milliseconds
+  initialDelay: number;
+  maxDelay: number;
+  multiplier: number;
+  // Fraction of the delay randomly added or removed, so several panels don't retry in lockstep
+  jitter: number;
+  // Interval of the Janus session keepalives, a missed one fails the session. Milliseconds.
+  keepAlivePeriod: number;
+};
+
+// A scheduled reconnection attempt
+export type ReconnectStatus = {
+  attempt: number;
+  // Unix time in milliseconds the attempt runs at
+  at: number;
+};
+
+export const DEFAULT_RECONNECT_SETTINGS: ReconnectSettings = {
+  enabled: true,
+  maxAttempts: 0,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  keepAlivePeriod: 25000,
+};
+
+// Delay before the given attempt, counting from 1
+export function backoffDelay(attempt: number, settings: ReconnectSettings): number {
+  const delay = Math.min(
+    settings.initialDelay * Math.pow(Math.max(settings.multiplier, 1), attempt - 1),
+    settings.maxDelay,
+  );
+  const jitter = delay * Math.min(Math.max(settings.jitter, 0), 1) * (Math.random() * 2 - 1);
+  return Math.max(delay + jitter, 0);
+}
+
+export function formatReconnectStatus(status: ReconnectStatus, now: number): string {
+  const seconds = Math.max(Math.ceil((status.at - now) / 1000), 0);
+  return `Reconnecting (attempt ${status.attempt}, next in ${seconds}s)`;
+}
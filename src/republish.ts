@@ -0,0 +1,84 @@
+import { Time } from "@foxglove/extension";
+
+import { compressedImage, rawImage } from "./imageMessages";
+
+export type RepublishEncoding = "jpeg" | "rgba";
+
+// How a tile republishes its video frames
+export type RepublishOptions = {
+  topic: string;
+  frameId: string;
+  // Frames per second
+  rate: number;
+  encoding: RepublishEncoding;
+  // 0-100, JPEG only
+  jpegQuality: number;
+};
+
+/**
+ * Calls `onFrame` for frames presented by `video`, at most `rate` times per second, with the
+ * frame's capture time when the browser knows it. Returns a function to stop sampling.
+ */
+export function sampleFrames(
+  video: HTMLVideoElement,
+  rate: number,
+  onFrame: (timeMs: number) => void,
+): () => void {
+  const intervalMs = 1000 / Math.max(rate, 0.1);
+
+  if ("requestVideoFrameCallback" in HTMLVideoElement.prototype) {
+    let handle = 0;
+    let last = 0;
+
+    const onVideoFrame = (now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (now - last >= intervalMs) {
+        last = now;
+        const captureTime = metadata.captureTime ?? metadata.receiveTime;
+        onFrame(captureTime != undefined ? performance.timeOrigin + captureTime : Date.now());
+      }
+      handle = video.requestVideoFrameCallback(onVideoFrame);
+    };
+
+    handle = video.requestVideoFrameCallback(onVideoFrame);
+    return () => {
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+
+  const timer = window.setInterval(() => {
+    onFrame(Date.now());
+  }, intervalMs);
+  return () => {
+    window.clearInterval(timer);
+  };
+}
+
+// Draws the current frame of `video` into `canvas` and encodes it as an image message
+export async function encodeFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  timestamp: Time,
+  options: RepublishOptions,
+): Promise<unknown> {
+  if (video.videoWidth === 0 || video.videoHeight === 0) {
+    return undefined;
+  }
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context2d = canvas.getContext("2d", { willReadFrequently: options.encoding === "rgba" });
+  if (!context2d) {
+    return undefined;
+  }
+  context2d.drawImage(video, 0, 0);
+
+  if (options.encoding === "rgba") {
+    const image = context2d.getImageData(0, 0, canvas.width, canvas.height);
+    return rawImage(image, timestamp, options.frameId);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => {
+    canvas.toBlob(resolve, "image/jpeg", options.jpegQuality / 100);
+  });
+  return blob ? await compressedImage(blob, timestamp, options.frameId) : undefined;
+}
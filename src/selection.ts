@@ -0,0 +1,93 @@
+import { Mountpoint, MountpointInfo } from "./types";
+
+// Message path field types a stream can be selected with
+export const SELECTION_PATH_TYPES = [
+  "int8",
+  "uint8",
+  "int16",
+  "uint16",
+  "int32",
+  "uint32",
+  "int64",
+  "uint64",
+  "string",
+];
+
+// A message path split into its topic and the keys to follow into the message
+export type SelectionPath = {
+  topic: string;
+  keys: (string | number)[];
+};
+
+/**
+ * Splits a message path like `/robot/state.camera.id` or `/robot/state.cameras[0]`. Topic names
+ * containing dots must be quoted, e.g. `"/robot.state".camera`, unless they are in `topics`.
+ */
+export function parseSelectionPath(path: string, topics: readonly string[]): SelectionPath {
+  const trimmed = path.trim();
+  let topic: string;
+  let rest: string;
+
+  if (trimmed.startsWith('"')) {
+    const end = trimmed.indexOf('"', 1);
+    topic = end > 0 ? trimmed.slice(1, end) : trimmed.slice(1);
+    rest = end > 0 ? trimmed.slice(end + 1) : "";
+  } else {
+    // Prefer the longest known topic, the first dot otherwise
+    const known = topics
+      .filter((name) => trimmed === name || trimmed.startsWith(`${name}.`))
+      .sort((a, b) => b.length - a.length)[0];
+    const end = known?.length ?? (trimmed.includes(".") ? trimmed.indexOf(".") : trimmed.length);
+    topic = trimmed.slice(0, end);
+    rest = trimmed.slice(end);
+  }
+
+  const keys: (string | number)[] = [];
+  for (const match of rest.matchAll(/\.([^.[\]]+)|\[(\d+)\]/g)) {
+    keys.push(match[1] ?? Number(match[2]));
+  }
+  return { topic, keys };
+}
+
+// Value at the path keys, or undefined when the message does not have it
+export function messagePathValue(message: unknown, keys: readonly (string | number)[]): unknown {
+  let value = message;
+  for (const key of keys) {
+    if (value == undefined || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Stream ID a selection value refers to: integers (and numeric strings) are mountpoint IDs, other
+ * strings are matched against the mountpoint names and descriptions.
+ */
+export function resolveStreamId(
+  value: unknown,
+  mountpoints: readonly Mountpoint[],
+  mountpointInfo: Record<number, MountpointInfo | undefined>,
+): number | undefined {
+  if (typeof value === "bigint") {
+    return Number(value);
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? value : undefined;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+
+  const text = value.trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text);
+  }
+  const name = text.toLowerCase();
+  return mountpoints.find(
+    (mountpoint) =>
+      mountpointInfo[mountpoint.id]?.name?.toLowerCase() === name ||
+      mountpoint.description?.toLowerCase() === name,
+  )?.id;
+}
@@ -0,0 +1,16 @@
+// The server setting holds one or more comma separated URLs, tried in order
+export function parseServerUrls(value: string): string[] {
+  return value
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url !== "");
+}
+
+// janus.js picks the transport from the URL scheme
+export function transportName(url: string): "WebSocket" | "HTTP" {
+  return /^wss?:/i.test(url) ? "WebSocket" : "HTTP";
+}
+
+export function describeServer(url: string): string {
+  return `${transportName(url)} ${url}`;
+}
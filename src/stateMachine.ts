@@ -0,0 +1,56 @@
+import { ConnectionState } from "./types";
+
+// States each state may move to, states without a row are never entered
+export type Transitions = Partial<Record<ConnectionState, readonly ConnectionState[]>>;
+
+// The Janus session shared by the streams of a panel
+export const SESSION_TRANSITIONS: Transitions = {
+  [ConnectionState.DISCONNECTED]: [ConnectionState.INITIALIZING, ConnectionState.CONNECTING],
+  [ConnectionState.INITIALIZING]: [ConnectionState.CONNECTING, ConnectionState.DISCONNECTED],
+  [ConnectionState.CONNECTING]: [
+    ConnectionState.CONNECTED,
+    ConnectionState.DISCONNECTED,
+    ConnectionState.DESTROYED,
+  ],
+  [ConnectionState.CONNECTED]: [ConnectionState.DISCONNECTED, ConnectionState.DESTROYED],
+  [ConnectionState.DESTROYED]: [ConnectionState.DISCONNECTED, ConnectionState.CONNECTING],
+};
+
+// A streaming plugin handle watching one mountpoint. Every state can start over by attaching again.
+export const STREAM_TRANSITIONS: Transitions = {
+  [ConnectionState.DISCONNECTED]: [ConnectionState.ATTACHING, ConnectionState.CONNECTED],
+  [ConnectionState.ATTACHING]: [ConnectionState.WATCHING, ConnectionState.DISCONNECTED],
+  [ConnectionState.WATCHING]: [
+    ConnectionState.ATTACHING,
+    ConnectionState.CONNECTED,
+    ConnectionState.STOPPED,
+    ConnectionState.DISCONNECTED,
+  ],
+  [ConnectionState.CONNECTED]: [
+    ConnectionState.ATTACHING,
+    ConnectionState.SWITCHING,
+    ConnectionState.STOPPED,
+    ConnectionState.DISCONNECTED,
+  ],
+  [ConnectionState.SWITCHING]: [
+    ConnectionState.ATTACHING,
+    ConnectionState.CONNECTED,
+    ConnectionState.STOPPED,
+    ConnectionState.DISCONNECTED,
+  ],
+  // A track coming back on plays again without a new watch request
+  [ConnectionState.STOPPED]: [
+    ConnectionState.ATTACHING,
+    ConnectionState.CONNECTED,
+    ConnectionState.DISCONNECTED,
+  ],
+};
+
+/** Whether `transitions` allow moving from `from` to `to`, staying in a state always is. */
+export function canTransition(
+  transitions: Transitions,
+  from: ConnectionState,
+  to: ConnectionState,
+): boolean {
+  return from === to || (transitions[from]?.includes(to) ?? false);
+}
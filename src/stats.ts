@@ -0,0 +1,289 @@
+import { codecProfile, isSoftwareDecoder } from "./codecs";
+
+// Structured WebRTC statistics of a received video stream, built from RTCPeerConnection.getStats()
+export type StreamStats = {
+  timestamp: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  // Bits per second over the last sample interval
+  bitrate?: number;
+  framesDecoded?: number;
+  framesDropped?: number;
+  // Milliseconds
+  jitter?: number;
+  packetsLost?: number;
+  // Percentage of packets lost over the last sample interval
+  packetLoss?: number;
+  nackCount?: number;
+  pliCount?: number;
+  firCount?: number;
+  // Average time frames spent in the jitter buffer over the last sample interval, in milliseconds
+  jitterBufferDelay?: number;
+  // Milliseconds
+  rtt?: number;
+  // Codec name and profile, or its raw format parameters when the profile is unknown
+  codec?: string;
+  // Only exposed by some browsers, Chrome for example requires media capture permission
+  decoderImplementation?: string;
+  powerEfficientDecoder?: boolean;
+  candidatePair?: string;
+  // Type of the selected local candidate, e.g. "relay" when going through TURN
+  localCandidateType?: string;
+};
+
+// Cumulative counters of the previous sample, used to compute rates and interval averages
+export type StatsTotals = {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+  jitterBufferDelay: number;
+  jitterBufferEmittedCount: number;
+};
+
+export type StatsMetric =
+  | "resolution"
+  | "fps"
+  | "bitrate"
+  | "frames"
+  | "jitter"
+  | "packetLoss"
+  | "feedback"
+  | "jitterBufferDelay"
+  | "rtt"
+  | "codec"
+  | "decoder"
+  | "candidatePair";
+
+type StatsMetricDefinition = {
+  label: string;
+  defaultEnabled: boolean;
+  format: (stats: StreamStats) => string | undefined;
+  // Value plotted in the sparkline, for metrics that have one
+  value?: (stats: StreamStats) => number | undefined;
+};
+
+export const STATS_METRICS: Record<StatsMetric, StatsMetricDefinition> = {
+  resolution: {
+    label: "Resolution",
+    defaultEnabled: true,
+    format: (stats) =>
+      stats.width != undefined && stats.height != undefined
+        ? `${stats.width}x${stats.height}`
+        : undefined,
+  },
+  fps: {
+    label: "FPS",
+    defaultEnabled: true,
+    format: (stats) => stats.fps?.toFixed(1),
+    value: (stats) => stats.fps,
+  },
+  bitrate: {
+    label: "Bitrate",
+    defaultEnabled: true,
+    format: (stats) => (stats.bitrate != undefined ? formatBitrate(stats.bitrate) : undefined),
+    value: (stats) => stats.bitrate,
+  },
+  frames: {
+    label: "Frames decoded/dropped",
+    defaultEnabled: false,
+    format: (stats) =>
+      stats.framesDecoded != undefined
+        ? `${stats.framesDecoded}/${stats.framesDropped ?? 0}`
+        : undefined,
+  },
+  jitter: {
+    label: "Jitter",
+    defaultEnabled: false,
+    format: (stats) => (stats.jitter != undefined ? `${stats.jitter.toFixed(1)} ms` : undefined),
+    value: (stats) => stats.jitter,
+  },
+  packetLoss: {
+    label: "Packet loss",
+    defaultEnabled: false,
+    format: (stats) =>
+      stats.packetLoss != undefined
+        ? `${stats.packetLoss.toFixed(1)}% (${stats.packetsLost ?? 0} total)`
+        : undefined,
+    value: (stats) => stats.packetLoss,
+  },
+  feedback: {
+    label: "NACK/PLI/FIR",
+    defaultEnabled: false,
+    format: (stats) =>
+      stats.nackCount != undefined
+        ? `${stats.nackCount}/${stats.pliCount ?? 0}/${stats.firCount ?? 0}`
+        : undefined,
+  },
+  jitterBufferDelay: {
+    label: "Jitter buffer",
+    defaultEnabled: false,
+    format: (stats) =>
+      stats.jitterBufferDelay != undefined ? `${stats.jitterBufferDelay.toFixed(0)} ms` : undefined,
+    value: (stats) => stats.jitterBufferDelay,
+  },
+  rtt: {
+    label: "RTT",
+    defaultEnabled: false,
+    format: (stats) => (stats.rtt != undefined ? `${stats.rtt.toFixed(0)} ms` : undefined),
+    value: (stats) => stats.rtt,
+  },
+  codec: {
+    label: "Codec",
+    defaultEnabled: true,
+    format: (stats) => stats.codec,
+  },
+  decoder: {
+    label: "Decoder",
+    defaultEnabled: true,
+    format: (stats) => {
+      const software = isSoftwareDecoder(stats);
+      if (stats.decoderImplementation == undefined && software == undefined) {
+        return undefined;
+      }
+      const kind = software == undefined ? "" : software ? " (software)" : " (hardware)";
+      return `${stats.decoderImplementation ?? "?"}${kind}`;
+    },
+  },
+  candidatePair: {
+    label: "Candidate pair",
+    defaultEnabled: false,
+    format: (stats) => stats.candidatePair,
+  },
+};
+
+// Stats entries the panel reads which lib.dom has no types for
+type CodecStats = { type: "codec"; mimeType?: string; sdpFmtpLine?: string };
+type InboundDecoderStats = { decoderImplementation?: string; powerEfficientDecoder?: boolean };
+type CandidateStats = {
+  type: "local-candidate" | "remote-candidate";
+  candidateType?: string;
+  protocol?: string;
+  address?: string;
+  port?: number;
+  relayProtocol?: string;
+};
+
+export function formatBitrate(bitsPerSecond: number): string {
+  if (bitsPerSecond >= 1e6) {
+    return `${(bitsPerSecond / 1e6).toFixed(2)} Mbit/s`;
+  }
+  return `${(bitsPerSecond / 1e3).toFixed(0)} kbit/s`;
+}
+
+function formatCandidate(candidate: CandidateStats | undefined): string {
+  if (!candidate) {
+    return "?";
+  }
+  const protocol = candidate.relayProtocol ?? candidate.protocol ?? "";
+  return `${candidate.candidateType ?? "?"} ${protocol} ${candidate.address ?? "?"}:${candidate.port ?? "?"}`;
+}
+
+/**
+ * Reads the statistics of the inbound video stream of `pc`. Rates and interval averages are
+ * computed against `previous`, the totals returned by the last call.
+ */
+export async function collectStats(
+  pc: RTCPeerConnection,
+  previous: StatsTotals | undefined,
+): Promise<{ stats: StreamStats; totals: StatsTotals } | undefined> {
+  const report = await pc.getStats();
+
+  let inbound: RTCInboundRtpStreamStats | undefined;
+  let transport: RTCTransportStats | undefined;
+  const entries = new Map<string, RTCStats>();
+  report.forEach((entry: RTCStats) => {
+    entries.set(entry.id, entry);
+    if (entry.type === "inbound-rtp" && (entry as RTCInboundRtpStreamStats).kind === "video") {
+      inbound = entry as RTCInboundRtpStreamStats;
+    } else if (entry.type === "transport") {
+      transport = entry as RTCTransportStats;
+    }
+  });
+
+  if (!inbound) {
+    return undefined;
+  }
+
+  const totals: StatsTotals = {
+    timestamp: inbound.timestamp,
+    bytesReceived: inbound.bytesReceived ?? 0,
+    packetsReceived: inbound.packetsReceived ?? 0,
+    packetsLost: inbound.packetsLost ?? 0,
+    jitterBufferDelay: inbound.jitterBufferDelay ?? 0,
+    jitterBufferEmittedCount: inbound.jitterBufferEmittedCount ?? 0,
+  };
+
+  const stats: StreamStats = {
+    timestamp: inbound.timestamp,
+    width: inbound.frameWidth,
+    height: inbound.frameHeight,
+    fps: inbound.framesPerSecond,
+    framesDecoded: inbound.framesDecoded,
+    framesDropped: inbound.framesDropped,
+    jitter: inbound.jitter != undefined ? inbound.jitter * 1000 : undefined,
+    packetsLost: inbound.packetsLost,
+    nackCount: inbound.nackCount,
+    pliCount: inbound.pliCount,
+    firCount: inbound.firCount,
+  };
+
+  if (previous && totals.timestamp > previous.timestamp) {
+    const seconds = (totals.timestamp - previous.timestamp) / 1000;
+    stats.bitrate = ((totals.bytesReceived - previous.bytesReceived) * 8) / seconds;
+
+    const lost = totals.packetsLost - previous.packetsLost;
+    const received = totals.packetsReceived - previous.packetsReceived;
+    stats.packetLoss = lost + received > 0 ? (Math.max(lost, 0) / (lost + received)) * 100 : 0;
+
+    const emitted = totals.jitterBufferEmittedCount - previous.jitterBufferEmittedCount;
+    if (emitted > 0) {
+      stats.jitterBufferDelay =
+        ((totals.jitterBufferDelay - previous.jitterBufferDelay) / emitted) * 1000;
+    }
+  }
+
+  const codec = inbound.codecId != undefined ? entries.get(inbound.codecId) : undefined;
+  if (codec?.type === "codec") {
+    const { mimeType, sdpFmtpLine } = codec as unknown as CodecStats;
+    const name = mimeType?.replace(/^video\//, "");
+    const profile = name != undefined ? codecProfile(name, sdpFmtpLine) : undefined;
+    stats.codec = [name, profile ?? sdpFmtpLine].filter(Boolean).join(" ");
+  }
+
+  const { decoderImplementation, powerEfficientDecoder } = inbound as InboundDecoderStats;
+  stats.decoderImplementation = decoderImplementation;
+  stats.powerEfficientDecoder = powerEfficientDecoder;
+
+  // Prefer the transport's selected pair, some browsers only flag the pair itself
+  let pair: RTCIceCandidatePairStats | undefined;
+  const selectedPairId = transport?.selectedCandidatePairId;
+  if (selectedPairId != undefined) {
+    pair = entries.get(selectedPairId) as RTCIceCandidatePairStats | undefined;
+  } else {
+    for (const entry of entries.values()) {
+      const candidatePair = entry as RTCIceCandidatePairStats & { selected?: boolean };
+      if (
+        entry.type === "candidate-pair" &&
+        (candidatePair.selected === true ||
+          (candidatePair.nominated === true && candidatePair.state === "succeeded"))
+      ) {
+        pair = candidatePair;
+        break;
+      }
+    }
+  }
+
+  if (pair) {
+    const local = entries.get(pair.localCandidateId) as CandidateStats | undefined;
+    const remote = entries.get(pair.remoteCandidateId) as CandidateStats | undefined;
+    stats.candidatePair = `${formatCandidate(local)} ⇄ ${formatCandidate(remote)}`;
+    stats.localCandidateType = local?.candidateType;
+    if (pair.currentRoundTripTime != undefined) {
+      stats.rtt = pair.currentRoundTripTime * 1000;
+    }
+  }
+
+  return { stats, totals };
+}
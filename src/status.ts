@@ -0,0 +1,61 @@
+import { Time } from "@foxglove/extension";
+
+import { msToTime } from "./frameTiming";
+import { StreamStats } from "./stats";
+import { ConnectionError, ConnectionState } from "./types";
+
+export const STATUS_SCHEMA_NAME = "webrtc_foxglove.StreamStatus";
+
+// JSON schema of the stream health messages
+export const STATUS_SCHEMA = {
+  title: STATUS_SCHEMA_NAME,
+  type: "object",
+  properties: {
+    timestamp: {
+      type: "object",
+      properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+    },
+    label: { type: "string" },
+    stream_id: { type: "integer", description: "Janus mountpoint ID" },
+    event: {
+      type: "string",
+      enum: ["state", "error", "stats"],
+      description: "What triggered the message",
+    },
+    state: { type: "string", description: "Connection state" },
+    connected: { type: "boolean" },
+    error_source: { type: ["string", "null"] },
+    error_message: { type: ["string", "null"] },
+    stats: {
+      type: ["object", "null"],
+      description: "Latest WebRTC statistics sample, rates are per second",
+      additionalProperties: { type: ["number", "string", "boolean"] },
+    },
+  },
+};
+
+export type StreamStatus = {
+  timestamp: Time;
+  label: string;
+  stream_id: number;
+  event: "state" | "error" | "stats";
+  state: ConnectionState;
+  connected: boolean;
+  error_source: ConnectionError["source"] | null;
+  error_message: string | null;
+  stats: StreamStats | null;
+};
+
+export function streamStatus(
+  fields: Omit<StreamStatus, "timestamp" | "error_source" | "error_message"> & {
+    error: ConnectionError | null;
+  },
+): StreamStatus {
+  const { error, ...rest } = fields;
+  return {
+    timestamp: msToTime(Date.now()),
+    ...rest,
+    error_source: error?.source ?? null,
+    error_message: error?.message ?? null,
+  };
+}
@@ -0,0 +1,314 @@
+import type { JanusJS } from "janus-gateway";
+import { Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_RECONNECT_SETTINGS } from "./reconnect";
+import {
+  ClientSession,
+  ClientSettings,
+  JanusAdapter,
+  JanusStreamClient,
+  SessionCallbacks,
+  SessionOptions,
+} from "./streamClient";
+import { fakeHandle, fakeSink, fakeTrack } from "./testing/fakes";
+import { ConnectionState } from "./types";
+
+type FakeSession = {
+  options: SessionOptions;
+  callbacks: SessionCallbacks;
+  attach: Mock<ClientSession["attach"]>;
+  destroy: Mock<ClientSession["destroy"]>;
+};
+
+function fakeAdapter(init = Promise.resolve()) {
+  const sessions: FakeSession[] = [];
+  const adapter: JanusAdapter<FakeSession> = {
+    init: vi.fn().mockReturnValue(init),
+    createSession: (options, callbacks) => {
+      const session = { options, callbacks, attach: vi.fn(), destroy: vi.fn() };
+      sessions.push(session);
+      return session;
+    },
+    randomString: () => "random",
+  };
+  return { adapter, sessions };
+}
+
+// Initialization of the Janus library that completes once `initialized` is called
+function pendingInit() {
+  let initialized: (() => void) | undefined;
+  const init = new Promise<void>((resolve) => {
+    initialized = resolve;
+  });
+  return { init, initialized: () => initialized?.() };
+}
+
+function settings(update: Partial<ClientSettings> = {}): ClientSettings {
+  return {
+    servers: ["wss://a"],
+    token: "",
+    apiSecret: "",
+    iceServers: [],
+    iceTransportPolicy: "all",
+    reconnect: { ...DEFAULT_RECONNECT_SETTINGS, jitter: 0 },
+    ...update,
+  };
+}
+
+async function startClient(clientSettings: ClientSettings) {
+  const { adapter, sessions } = fakeAdapter();
+  const client = new JanusStreamClient(adapter, vi.fn());
+  client.configure(clientSettings);
+  await client.start();
+  return { client, sessions };
+}
+
+// Attaches and plays a stream of the client's session, as a tile would
+function playStream(client: JanusStreamClient<FakeSession>, session: FakeSession) {
+  const stream = client.openStream(
+    { label: "cam", streamId: 1, pin: "", codec: "any" },
+    fakeSink(),
+    vi.fn(),
+  );
+  stream?.start();
+  const options = session.attach.mock.lastCall![0];
+  const handle = fakeHandle();
+  options.success?.(handle as unknown as JanusJS.PluginHandle);
+  options.onremotetrack?.(fakeTrack("video"), "0", true);
+  return { stream, options, handle };
+}
+
+describe("JanusStreamClient", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("connects to the first server", async () => {
+    const { client, sessions } = await startClient(
+      settings({ servers: ["wss://a", "wss://b"], token: "secret" }),
+    );
+    const onSession = vi.fn();
+    client.on("session", onSession);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]!.options).toMatchObject({ server: "wss://a", token: "secret" });
+    expect(sessions[0]!.options.apiSecret).toBeUndefined();
+    expect(client.state).toMatchObject({
+      connectionState: ConnectionState.CONNECTING,
+      server: "wss://a",
+    });
+
+    sessions[0]!.callbacks.success();
+    expect(client.state.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(client.session).toBe(sessions[0]);
+    expect(onSession).toHaveBeenCalledWith(sessions[0]);
+  });
+
+  it("reports a missing server", async () => {
+    const { client, sessions } = await startClient(settings({ servers: [] }));
+
+    expect(sessions).toHaveLength(0);
+    expect(client.state.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(client.state.error?.message).toBe("No server URL configured");
+  });
+
+  it("fails over to the next server right away", async () => {
+    const { client, sessions } = await startClient(settings({ servers: ["wss://a", "wss://b"] }));
+    const onReconnect = vi.fn();
+    client.on("reconnect", onReconnect);
+
+    sessions[0]!.callbacks.error("Lost connection to the server");
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]!.destroy).toHaveBeenCalled();
+    expect(sessions[1]!.options.server).toBe("wss://b");
+    expect(client.state.server).toBe("wss://b");
+    expect(onReconnect).not.toHaveBeenCalled();
+
+    // Callbacks of the replaced session are ignored
+    sessions[0]!.callbacks.destroyed();
+    expect(sessions).toHaveLength(2);
+  });
+
+  it("backs off once every server failed", async () => {
+    const { client, sessions } = await startClient(settings({ servers: ["wss://a", "wss://b"] }));
+    const onReconnect = vi.fn();
+    client.on("reconnect", onReconnect);
+
+    sessions[0]!.callbacks.error("Lost connection to the server");
+    sessions[1]!.callbacks.error("Lost connection to the server");
+    expect(sessions).toHaveLength(2);
+    expect(onReconnect).toHaveBeenLastCalledWith({ attempt: 1, at: Date.now() + 1000 });
+
+    vi.advanceTimersByTime(999);
+    expect(sessions).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(sessions).toHaveLength(3);
+    // Back at the first server
+    expect(sessions[2]!.options.server).toBe("wss://a");
+    expect(onReconnect).toHaveBeenLastCalledWith(null);
+
+    sessions[2]!.callbacks.error("Lost connection to the server");
+    sessions[3]!.callbacks.error("Lost connection to the server");
+    expect(onReconnect).toHaveBeenLastCalledWith({ attempt: 2, at: Date.now() + 2000 });
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const reconnect = { ...DEFAULT_RECONNECT_SETTINGS, jitter: 0, maxAttempts: 1 };
+    const { sessions } = await startClient(settings({ reconnect }));
+
+    sessions[0]!.callbacks.error("Lost connection to the server");
+    vi.advanceTimersByTime(1000);
+    sessions[1]!.callbacks.error("Lost connection to the server");
+    vi.runAllTimers();
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it("resets the backoff once a stream plays", async () => {
+    const { client, sessions } = await startClient(settings());
+    const onReconnect = vi.fn();
+    client.on("reconnect", onReconnect);
+
+    sessions[0]!.callbacks.error("Lost connection to the server");
+    vi.advanceTimersByTime(1000);
+    sessions[1]!.callbacks.success();
+    playStream(client, sessions[1]!);
+    await vi.advanceTimersByTimeAsync(100);
+
+    sessions[1]!.callbacks.destroyed();
+    expect(onReconnect).toHaveBeenLastCalledWith({ attempt: 1, at: Date.now() + 1000 });
+  });
+
+  it("doesn't retry authentication errors", async () => {
+    const { client, sessions } = await startClient(settings({ servers: ["wss://a", "wss://b"] }));
+    const onReconnect = vi.fn();
+    client.on("reconnect", onReconnect);
+
+    sessions[0]!.callbacks.error("Ooops: 403 Unauthorized request (wrong or missing secret/token)");
+    vi.runAllTimers();
+
+    expect(sessions).toHaveLength(1);
+    expect(onReconnect).not.toHaveBeenCalled();
+    expect(client.state.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(client.state.error?.source).toBe("auth");
+  });
+
+  it("fails over when a stream loses its connection", async () => {
+    const { client, sessions } = await startClient(settings({ servers: ["wss://a", "wss://b"] }));
+    sessions[0]!.callbacks.success();
+    const { options, handle } = playStream(client, sessions[0]!);
+
+    options.iceState?.("failed");
+
+    expect(sessions).toHaveLength(2);
+    // Streams are detached before their session is destroyed
+    expect(handle.detach).toHaveBeenCalled();
+    expect(handle.detach.mock.invocationCallOrder[0]).toBeLessThan(
+      sessions[0]!.destroy.mock.invocationCallOrder[0]!,
+    );
+    expect(client.session).toBeNull();
+  });
+
+  it("restarts with a fresh session", async () => {
+    const { client, sessions } = await startClient(settings({ servers: ["wss://a", "wss://b"] }));
+    sessions[0]!.callbacks.error("Lost connection to the server");
+    sessions[1]!.callbacks.error("Lost connection to the server");
+    const onReconnect = vi.fn();
+    client.on("reconnect", onReconnect);
+
+    client.restart();
+
+    // The scheduled attempt is cancelled and the session torn down
+    expect(onReconnect).toHaveBeenLastCalledWith(null);
+    expect(sessions[1]!.destroy).toHaveBeenCalledWith({
+      unload: true,
+      notifyDestroyed: false,
+      cleanupHandles: true,
+    });
+    expect(client.state.connectionState).toBe(ConnectionState.DISCONNECTED);
+
+    vi.advanceTimersByTime(1000);
+    expect(sessions).toHaveLength(3);
+    // The server that failed last is tried first
+    expect(sessions[2]!.options.server).toBe("wss://a");
+    vi.runAllTimers();
+    expect(sessions).toHaveLength(3);
+  });
+
+  it("tears everything down when disposed", async () => {
+    const { client, sessions } = await startClient(settings());
+    sessions[0]!.callbacks.success();
+    const { handle } = playStream(client, sessions[0]!);
+    const onState = vi.fn();
+    client.on("state", onState);
+
+    client.dispose();
+
+    expect(handle.detach).toHaveBeenCalled();
+    expect(sessions[0]!.destroy).toHaveBeenCalled();
+    onState.mockClear();
+    sessions[0]!.callbacks.destroyed();
+    vi.runAllTimers();
+    expect(sessions).toHaveLength(1);
+    expect(onState).not.toHaveBeenCalled();
+  });
+
+  it("doesn't reconnect when disposed while waiting to", async () => {
+    const { client, sessions } = await startClient(settings());
+    sessions[0]!.callbacks.error("Lost connection to the server");
+
+    client.dispose();
+    vi.runAllTimers();
+
+    expect(sessions).toHaveLength(1);
+  });
+
+  it("doesn't connect when disposed during initialization", async () => {
+    const { adapter, sessions } = fakeAdapter();
+    const client = new JanusStreamClient(adapter, vi.fn());
+    client.configure(settings());
+
+    const started = client.start();
+    client.dispose();
+    await started;
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it("connects once when restarted during initialization", async () => {
+    const { init, initialized } = pendingInit();
+    const { adapter, sessions } = fakeAdapter(init);
+    const client = new JanusStreamClient(adapter, vi.fn());
+    client.configure(settings());
+
+    const started = client.start();
+    client.restart();
+    initialized();
+    await started;
+    expect(sessions).toHaveLength(0);
+
+    vi.advanceTimersByTime(1000);
+    expect(sessions).toHaveLength(1);
+  });
+
+  it("connects once initialized when a restart ran during initialization", async () => {
+    const { init, initialized } = pendingInit();
+    const { adapter, sessions } = fakeAdapter(init);
+    const client = new JanusStreamClient(adapter, vi.fn());
+    client.configure(settings());
+
+    const started = client.start();
+    client.restart();
+    vi.advanceTimersByTime(1000);
+    expect(sessions).toHaveLength(0);
+
+    initialized();
+    await started;
+    expect(sessions).toHaveLength(1);
+  });
+});
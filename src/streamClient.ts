@@ -0,0 +1,389 @@
+import type { JanusJS } from "janus-gateway";
+
+import { isAuthError } from "./auth";
+import { JanusStream, MediaSink, StreamOptions } from "./janusStream";
+import { ReconnectSettings, ReconnectStatus, backoffDelay } from "./reconnect";
+import { describeServer } from "./servers";
+import { SESSION_TRANSITIONS, canTransition } from "./stateMachine";
+import { ConnectionError, ConnectionState, Log } from "./types";
+
+// Subset of a Janus session the client and its streams use
+export type ClientSession = {
+  attach(options: JanusJS.PluginOptions): void;
+  destroy(options: JanusJS.DestroyOptions): void;
+};
+
+export type SessionCallbacks = {
+  success: () => void;
+  error: (error: unknown) => void;
+  destroyed: () => void;
+};
+
+export type SessionOptions = {
+  server: string;
+  iceServers: RTCIceServer[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  keepAlivePeriod: number;
+  token?: string;
+  apiSecret?: string;
+};
+
+/** Creates the Janus sessions of a client, the real library or a fake one. */
+export type JanusAdapter<S extends ClientSession> = {
+  // Called once before the first session is created
+  init(): Promise<void>;
+  createSession(options: SessionOptions, callbacks: SessionCallbacks): S;
+  randomString(length: number): string;
+};
+
+export type ClientSettings = {
+  // Tried in order, the client fails over to the next one when a session is lost
+  servers: string[];
+  token: string;
+  apiSecret: string;
+  iceServers: RTCIceServer[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  reconnect: ReconnectSettings;
+};
+
+export type ClientState = {
+  connectionState: ConnectionState;
+  // Server of the current session or connection attempt
+  server: string | null;
+  error: ConnectionError | null;
+};
+
+type ClientEvents<S> = {
+  state: (state: ClientState) => void;
+  // The connected session, null once it is gone
+  session: (session: S | null) => void;
+  // The scheduled reconnection attempt, null once it ran or was cancelled
+  reconnect: (status: ReconnectStatus | null) => void;
+};
+
+// Pause between tearing a session down and connecting again after a settings change
+const RESTART_DELAY_MS = 1000;
+
+/**
+ * Janus session lifecycle of the panel, independent of React: connects to the configured servers,
+ * fails over between them and reconnects with backoff once all failed. Session state changes go
+ * through an explicit state machine and are reported as events. The streams it opens on the session
+ * report lost connections back to it and are disposed with the session.
+ */
+export class JanusStreamClient<S extends ClientSession> {
+  #adapter: JanusAdapter<S>;
+  #log: Log;
+  #settings: ClientSettings | undefined;
+  #currentState: ClientState = {
+    connectionState: ConnectionState.DISCONNECTED,
+    server: null,
+    error: null,
+  };
+  #currentSession: S | null = null;
+  // The session being connected or connected, cleared before it is destroyed on purpose
+  #pending: S | undefined;
+  #streams = new Set<JanusStream>();
+  #listeners: { [E in keyof ClientEvents<S>]: Set<ClientEvents<S>[E]> } = {
+    state: new Set(),
+    session: new Set(),
+    reconnect: new Set(),
+  };
+
+  // Index of the server to connect to, left at the last one that worked
+  #serverIndex = 0;
+  // Servers that failed in a row, once all did the reconnect backoff kicks in
+  #failedServers = 0;
+  // Consecutive attempts, reset once a stream plays again
+  #reconnectAttempt = 0;
+  #scheduled: ReconnectStatus | null = null;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+  // Set once the Janus library is initialized, sessions are only created afterwards
+  #initialized = false;
+  #disposed = false;
+
+  public constructor(janusAdapter: JanusAdapter<S>, log: Log) {
+    this.#adapter = janusAdapter;
+    this.#log = log;
+  }
+
+  public get state(): ClientState {
+    return this.#currentState;
+  }
+
+  public get session(): S | null {
+    return this.#currentSession;
+  }
+
+  public on<E extends keyof ClientEvents<S>>(event: E, listener: ClientEvents<S>[E]): () => void {
+    this.#listeners[event].add(listener);
+    return () => {
+      this.#listeners[event].delete(listener);
+    };
+  }
+
+  /** Settings used from the next connection attempt on, a changed server list starts over. */
+  public configure(settings: ClientSettings): void {
+    if (this.#settings?.servers.join(",") !== settings.servers.join(",")) {
+      this.#serverIndex = 0;
+      this.#failedServers = 0;
+    }
+    this.#settings = settings;
+  }
+
+  /** Initializes the Janus library and connects to the first server. */
+  public async start(): Promise<void> {
+    this.#transition({ connectionState: ConnectionState.INITIALIZING });
+    try {
+      await this.#adapter.init();
+    } catch (error) {
+      this.#log(`Failed to initialize Janus library: ${String(error)}`, "error", "janus");
+      this.#transition({
+        connectionState: ConnectionState.DISCONNECTED,
+        error: { source: "janus", message: String(error) },
+      });
+      return;
+    }
+
+    this.#initialized = true;
+    this.#log("Janus library initialized", "info", "janus");
+    // A restart requested meanwhile connects once its delay is over
+    if (!this.#disposed && this.#timer == undefined) {
+      this.#connect();
+    }
+  }
+
+  /** Tears the session down and connects again, e.g. after a settings change. */
+  public restart(): void {
+    this.#log("Reconnecting due to settings change");
+    this.#cancelReconnect();
+    this.#reconnectAttempt = 0;
+    this.#failedServers = 0;
+
+    this.#cleanup();
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      // Otherwise start() connects once the library is initialized
+      if (this.#initialized) {
+        this.#connect();
+      }
+    }, RESTART_DELAY_MS);
+  }
+
+  /**
+   * Opens a stream on the connected session, playing into `sink` once started. Returns undefined
+   * without a session. Streams are disposed when the session goes away, open new ones then.
+   */
+  public openStream(options: StreamOptions, sink: MediaSink, log: Log): JanusStream | undefined {
+    const session = this.#currentSession;
+    if (!session) {
+      return undefined;
+    }
+
+    const stream = new JanusStream({
+      session,
+      opaqueId: `foxglovestreamingtest-${this.#adapter.randomString(12)}`,
+      options,
+      sink,
+      log,
+      owner: {
+        // Ignored for sessions that were already replaced
+        connectionLost: (reason) => {
+          if (session === this.#currentSession) {
+            this.#handleConnectionLost(reason);
+          }
+        },
+        // A playing stream ends a series of reconnection attempts
+        playing: () => {
+          this.#reconnectAttempt = 0;
+        },
+        closed: (closed) => {
+          this.#streams.delete(closed);
+        },
+      },
+    });
+    this.#streams.add(stream);
+    return stream;
+  }
+
+  public dispose(): void {
+    this.#disposed = true;
+    this.#cancelReconnect();
+    this.#cleanup();
+    for (const listeners of Object.values(this.#listeners)) {
+      listeners.clear();
+    }
+  }
+
+  #emit<E extends keyof ClientEvents<S>>(event: E, ...args: Parameters<ClientEvents<S>[E]>) {
+    for (const listener of this.#listeners[event]) {
+      (listener as (...values: Parameters<ClientEvents<S>[E]>) => void)(...args);
+    }
+  }
+
+  // Applies a state update, rejecting session state changes the state machine doesn't allow
+  #transition({ connectionState, ...update }: Partial<ClientState>) {
+    const current = this.#currentState.connectionState;
+    let next = connectionState ?? current;
+    if (!canTransition(SESSION_TRANSITIONS, current, next)) {
+      this.#log(`Ignoring session state change from "${current}" to "${next}"`, "warn", "janus");
+      next = current;
+    }
+
+    this.#currentState = { ...this.#currentState, ...update, connectionState: next };
+    this.#emit("state", this.#currentState);
+  }
+
+  #setSession(session: S | null) {
+    if (session !== this.#currentSession) {
+      this.#currentSession = session;
+      this.#emit("session", session);
+    }
+  }
+
+  #connect() {
+    const settings = this.#settings;
+    const servers = settings?.servers ?? [];
+    const server = servers[this.#serverIndex % Math.max(servers.length, 1)];
+    if (!settings || server == undefined) {
+      this.#transition({
+        connectionState: ConnectionState.DISCONNECTED,
+        server: null,
+        error: { source: "janus", message: "No server URL configured" },
+      });
+      return;
+    }
+
+    this.#log(`Initializing new Janus connection to ${describeServer(server)}`, "info", "janus");
+    this.#transition({ connectionState: ConnectionState.CONNECTING, server, error: null });
+
+    // Callbacks of sessions that were replaced or torn down are ignored
+    const current = () => session === this.#pending;
+    const session: S = this.#adapter.createSession(
+      {
+        server,
+        iceServers: settings.iceServers,
+        iceTransportPolicy: settings.iceTransportPolicy,
+        keepAlivePeriod: settings.reconnect.keepAlivePeriod,
+        token: settings.token !== "" ? settings.token : undefined,
+        apiSecret: settings.apiSecret !== "" ? settings.apiSecret : undefined,
+      },
+      {
+        success: () => {
+          if (!current()) {
+            return;
+          }
+          this.#log(`Connected to Janus server ${describeServer(server)}`, "info", "janus");
+          this.#failedServers = 0;
+          this.#transition({ connectionState: ConnectionState.CONNECTED });
+          this.#setSession(session);
+        },
+
+        error: (error: unknown) => {
+          if (!current()) {
+            return;
+          }
+          const message = String(error);
+          const auth = isAuthError(message);
+          this.#setSession(null);
+          this.#transition({
+            connectionState: ConnectionState.DISCONNECTED,
+            error: { source: auth ? "auth" : "janus", message },
+          });
+          // Retrying with the same credentials would fail again
+          if (!auth) {
+            this.#handleConnectionLost(`Janus error: ${message}`);
+          }
+        },
+
+        destroyed: () => {
+          if (!current()) {
+            return;
+          }
+          this.#setSession(null);
+          this.#transition({ connectionState: ConnectionState.DESTROYED });
+          this.#handleConnectionLost("Janus session destroyed");
+        },
+      },
+    );
+    this.#pending = session;
+  }
+
+  #cleanup() {
+    this.#log("Cleaning up Janus resources", "info", "janus");
+    if (this.#timer != undefined) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+
+    // Before the session is destroyed, so the handles are still there to detach
+    for (const stream of [...this.#streams]) {
+      stream.dispose();
+    }
+
+    const session = this.#pending;
+    // Cleared first, so callbacks fired while destroying aren't taken for a lost connection
+    this.#pending = undefined;
+    if (session) {
+      try {
+        session.destroy({ unload: true, notifyDestroyed: false, cleanupHandles: true });
+      } catch (error) {
+        this.#log(`Error during Janus cleanup: ${String(error)}`, "warn", "janus");
+      }
+    }
+
+    this.#setSession(null);
+    this.#transition({ connectionState: ConnectionState.DISCONNECTED });
+  }
+
+  #handleConnectionLost(reason: string) {
+    // Already waiting for the next attempt
+    if (this.#scheduled != undefined || this.#disposed) {
+      return;
+    }
+
+    const settings = this.#settings;
+    const servers = settings?.servers ?? [];
+
+    // Fail over to the next server right away, backing off only once every server failed
+    this.#serverIndex = (this.#serverIndex + 1) % Math.max(servers.length, 1);
+    if (this.#failedServers < servers.length - 1) {
+      this.#failedServers += 1;
+      this.#log(`${reason}, failing over to the next server`, "warn");
+      this.#cleanup();
+      this.#connect();
+      return;
+    }
+
+    this.#failedServers = 0;
+    if (settings?.reconnect.enabled !== true) {
+      return;
+    }
+
+    const attempt = this.#reconnectAttempt + 1;
+    if (settings.reconnect.maxAttempts > 0 && attempt > settings.reconnect.maxAttempts) {
+      this.#log(`${reason}, giving up after ${settings.reconnect.maxAttempts} attempts`, "error");
+      return;
+    }
+
+    this.#reconnectAttempt = attempt;
+    const delay = backoffDelay(attempt, settings.reconnect);
+    this.#log(`${reason}, reconnecting in ${(delay / 1000).toFixed(1)} s`, "warn");
+    this.#scheduled = { attempt, at: Date.now() + delay };
+    this.#emit("reconnect", this.#scheduled);
+
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.#log(`Reconnection attempt ${attempt}`);
+      this.#cancelReconnect();
+      this.#cleanup();
+      this.#connect();
+    }, delay);
+  }
+
+  #cancelReconnect() {
+    if (this.#scheduled != undefined) {
+      this.#scheduled = null;
+      this.#emit("reconnect", null);
+    }
+  }
+}
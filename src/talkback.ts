@@ -0,0 +1,215 @@
+import Janus, { JanusJS } from "janus-gateway";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { Log } from "./types";
+
+// Room the operator's microphone is sent to
+export type TalkbackSettings = {
+  enabled: boolean;
+  plugin: string;
+  room: number;
+  // Room PIN, empty when the room isn't protected
+  pin: string;
+  // Name shown to the other room participants
+  display: string;
+};
+
+export const DEFAULT_TALKBACK_SETTINGS: TalkbackSettings = {
+  enabled: false,
+  plugin: "janus.plugin.audiobridge",
+  room: 1234,
+  pin: "",
+  display: "Foxglove operator",
+};
+
+export type TalkbackState = "off" | "joining" | "ready" | "talking" | "error";
+
+// Subset of the audiobridge event payload the panel reacts to
+type AudioBridgeEvent = {
+  audiobridge?: string;
+  error?: string;
+  error_code?: number;
+};
+
+/**
+ * Push-to-talk over an AudioBridge room on the panel's Janus session. The room is joined muted
+ * while enabled, the microphone is only captured on the first `start` and unmuted while talking.
+ */
+export function useTalkback(
+  janus: Janus | null,
+  settings: TalkbackSettings,
+  log: Log,
+): {
+  state: TalkbackState;
+  error: string | undefined;
+  start: () => void;
+  stop: () => void;
+} {
+  const [state, setState] = useState<TalkbackState>("off");
+  const [error, setError] = useState<string | undefined>();
+  const handleRef = useRef<JanusJS.PluginHandle | null>(null);
+  // Set once the microphone is negotiated, later presses only unmute
+  const negotiatedRef = useRef(false);
+  const talkingRef = useRef(false);
+
+  const fail = useCallback(
+    (message: string) => {
+      log(`Talkback: ${message}`, "error", "plugin");
+      setError(message);
+      setState("error");
+    },
+    [log],
+  );
+
+  const { enabled, plugin, room, pin, display } = settings;
+
+  useEffect(() => {
+    if (!enabled || !janus) {
+      setState("off");
+      setError(undefined);
+      return;
+    }
+
+    // Callbacks of a replaced handle are ignored
+    let active = true;
+    setState("joining");
+    setError(undefined);
+
+    janus.attach({
+      plugin,
+      opaqueId: "foxglovetalkback-" + Janus.randomString(12),
+
+      success: (pluginHandle) => {
+        if (!active) {
+          pluginHandle.detach();
+          return;
+        }
+        handleRef.current = pluginHandle;
+        log(`Talkback: joining room ${room} via ${plugin}`, "info", "plugin");
+        pluginHandle.send({
+          message: {
+            request: "join",
+            room,
+            pin: pin !== "" ? pin : undefined,
+            display,
+            muted: true,
+          },
+        });
+      },
+
+      error: (attachError: string) => {
+        if (active) {
+          fail(`failed to attach ${plugin}: ${attachError}`);
+        }
+      },
+
+      onmessage: (msg: JanusJS.Message, jsep?: JanusJS.JSEP) => {
+        if (!active) {
+          return;
+        }
+        const event = msg as AudioBridgeEvent;
+
+        if (event.error != undefined) {
+          fail(event.error);
+          return;
+        }
+        if (event.audiobridge === "joined") {
+          setState((current) => (current === "joining" ? "ready" : current));
+        }
+        if (jsep) {
+          handleRef.current?.handleRemoteJsep({ jsep });
+        }
+      },
+
+      iceState: (iceState) => {
+        if (active && iceState === "failed") {
+          fail("microphone connection failed");
+        }
+      },
+
+      oncleanup: () => {
+        negotiatedRef.current = false;
+      },
+    });
+
+    return () => {
+      active = false;
+      const handle = handleRef.current;
+      handleRef.current = null;
+      negotiatedRef.current = false;
+      talkingRef.current = false;
+      if (handle && !handle.detached) {
+        handle.send({ message: { request: "leave" } });
+        handle.detach({
+          error: (detachError: string) => {
+            log(`Talkback: error detaching: ${detachError}`, "warn", "plugin");
+          },
+        });
+      }
+    };
+  }, [janus, enabled, plugin, room, pin, display, fail, log]);
+
+  const setMuted = useCallback(({ muted }: { muted: boolean }) => {
+    const handle = handleRef.current;
+    if (!handle) {
+      return;
+    }
+    // The local track is disabled too, so nothing leaves the browser while not talking
+    if (muted) {
+      handle.muteAudio();
+    } else {
+      handle.unmuteAudio();
+    }
+    handle.send({ message: { request: "configure", muted } });
+  }, []);
+
+  const start = useCallback(() => {
+    const handle = handleRef.current;
+    if (!handle || talkingRef.current || (state !== "ready" && state !== "talking")) {
+      return;
+    }
+    talkingRef.current = true;
+    setState("talking");
+    setError(undefined);
+
+    if (negotiatedRef.current) {
+      setMuted({ muted: false });
+      return;
+    }
+
+    log("Talkback: capturing microphone", "info", "webrtc");
+    handle.createOffer({
+      tracks: [{ type: "audio", capture: true, recv: false }],
+      success: (jsep: JanusJS.JSEP) => {
+        negotiatedRef.current = true;
+        // Released before the microphone was ready
+        const muted = !talkingRef.current;
+        if (muted) {
+          handle.muteAudio();
+        }
+        handle.send({ message: { request: "configure", muted }, jsep });
+      },
+      error: (offerError: Error) => {
+        // Still in the room, the next press tries again
+        const message = `microphone unavailable: ${offerError.message}`;
+        log(`Talkback: ${message}`, "error", "webrtc");
+        talkingRef.current = false;
+        setError(message);
+        setState("ready");
+      },
+    });
+  }, [state, setMuted, log]);
+
+  const stop = useCallback(() => {
+    if (!talkingRef.current) {
+      return;
+    }
+    talkingRef.current = false;
+    setState((current) => (current === "talking" ? "ready" : current));
+    if (negotiatedRef.current) {
+      setMuted({ muted: true });
+    }
+  }, [setMuted]);
+
+  return { state, error, start, stop };
+}
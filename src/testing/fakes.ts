@@ -0,0 +1,34 @@
+import { Mock, vi } from "vitest";
+
+import { MediaSink } from "../janusStream";
+
+export type FakeHandle = Record<"send" | "createAnswer" | "hangup" | "detach", Mock> & {
+  detached: boolean;
+};
+
+export type FakeSink = Record<keyof MediaSink, Mock>;
+
+/** Streaming plugin handle recording its calls, cast to a PluginHandle when handed out. */
+export function fakeHandle(): FakeHandle {
+  return {
+    send: vi.fn(),
+    createAnswer: vi.fn(),
+    hangup: vi.fn(),
+    detach: vi.fn(),
+    detached: false,
+  };
+}
+
+/** Sink that plays right away. */
+export function fakeSink(): FakeSink {
+  return {
+    addTrack: vi.fn(),
+    removeTrack: vi.fn(),
+    play: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn(),
+  };
+}
+
+export function fakeTrack(kind: string): MediaStreamTrack {
+  return { id: kind, kind } as MediaStreamTrack;
+}
@@ -0,0 +1,207 @@
+import { VideoCodec } from "./codecs";
+import { DataEncoding } from "./dataChannel";
+import { PlayoutSettings } from "./latency";
+import { QualityMode } from "./quality";
+import { ReconnectSettings } from "./reconnect";
+import { RepublishOptions } from "./republish";
+import { StatsMetric } from "./stats";
+import { TalkbackSettings } from "./talkback";
+import { ViewSettings } from "./view";
+import { WatchdogSettings } from "./watchdog";
+
+export enum ConnectionState {
+  DISCONNECTED = "Not connected",
+  INITIALIZING = "Initializing Janus...",
+  CONNECTING = "Connecting to Janus server...",
+  ATTACHING = "Attaching to streaming plugin...",
+  WATCHING = "Starting stream...",
+  SWITCHING = "Switching stream...",
+  CONNECTED = "Connected",
+  STOPPED = "Stream stopped",
+  DESTROYED = "Connection destroyed",
+}
+
+export type ConnectionError = {
+  source: "janus" | "plugin" | "webrtc" | "playback" | "stream" | "auth";
+  message: string;
+};
+
+export type MountpointMedia = {
+  mid?: string;
+  type?: string;
+  label?: string;
+  codec?: string;
+};
+
+// A mountpoint as reported by the streaming plugin "list" request
+export type Mountpoint = {
+  id: number;
+  type?: string;
+  description?: string;
+  metadata?: string;
+  enabled?: boolean;
+  media?: MountpointMedia[];
+};
+
+// Extra details returned by the streaming plugin "info" request
+export type MountpointInfo = Mountpoint & {
+  name?: string;
+  viewers?: number;
+};
+
+// Subset of the streaming plugin event payload the panel reacts to
+export type StreamingEvent = {
+  error?: string;
+  error_code?: number;
+  result?: {
+    status?: string;
+    switched?: string;
+    id?: number;
+    // Simulcast and SVC layer changes
+    substream?: number;
+    temporal?: number;
+    spatial_layer?: number;
+    temporal_layer?: number;
+  };
+};
+
+// An additional stream rendered as its own tile in grid mode
+export type StreamEntry = {
+  id: string;
+  label: string;
+  streamId: number;
+  // Mountpoint PIN, empty when the mountpoint isn't protected
+  pin?: string;
+  view?: Partial<ViewSettings>;
+};
+
+// A STUN or TURN server handed to the peer connections
+export type IceServerEntry = {
+  id: string;
+  // Comma separated, e.g. "turn:turn.example.com:3478?transport=udp"
+  urls: string;
+  username: string;
+  credential: string;
+};
+
+export type PanelState = {
+  stream: {
+    label: string;
+    visible: boolean;
+    serverUrl: string;
+    token: string;
+    apiSecret: string;
+    streamId: number;
+    pin: string;
+    view: ViewSettings;
+    quality: QualityMode;
+    codec: VideoCodec;
+    debug: boolean;
+    layout: "single" | "grid";
+    tiles: StreamEntry[];
+  };
+  sync: {
+    // Flag the video when it lags Foxglove's current time by more than this many milliseconds
+    lagThreshold: number;
+    publishFrameTimes: boolean;
+    frameTimeTopic: string;
+  };
+  stats: {
+    sparklines: boolean;
+    // Seconds of history kept for the sparklines
+    historyLength: number;
+    metrics: Record<StatsMetric, boolean>;
+  };
+  audio: {
+    muted: boolean;
+    // Percent
+    volume: number;
+    levelMeter: boolean;
+  };
+  ice: {
+    transportPolicy: RTCIceTransportPolicy;
+    servers: IceServerEntry[];
+  };
+  // Shared connection profile by name, empty to use the panel's own connection settings
+  profile: {
+    name: string;
+    // Parts of the profile replaced by the panel's own settings
+    overrideServer: boolean;
+    overrideAuth: boolean;
+    overrideIce: boolean;
+  };
+  reconnect: ReconnectSettings;
+  watchdog: WatchdogSettings;
+  playout: PlayoutSettings;
+  talkback: TalkbackSettings;
+  // Topic and frame ID may contain "{label}", replaced by the stream label
+  republish: RepublishOptions & { enabled: boolean };
+  annotations: {
+    // foxglove.ImageAnnotations topic, "{label}" is replaced by the stream label. Empty to disable.
+    topic: string;
+    // Size of the image the annotations refer to, 0 to use the video resolution
+    sourceWidth: number;
+    sourceHeight: number;
+  };
+  capture: {
+    publishSnapshots: boolean;
+    // Topic template, "{label}" is replaced by the stream label
+    snapshotTopic: string;
+  };
+  logs: {
+    visible: boolean;
+    // Entries kept, older ones are dropped
+    bufferSize: number;
+    // Keep the log in the browser's storage across reloads
+    persist: boolean;
+    // Identifies this panel's stored log
+    storageId: string;
+  };
+  data: {
+    publish: boolean;
+    // "{label}" is replaced by the stream label
+    topic: string;
+    encoding: DataEncoding;
+    // Show short text payloads over the video
+    overlay: boolean;
+  };
+  selection: {
+    // Message path of an integer stream ID or a mountpoint name, empty to select by hand only
+    path: string;
+  };
+  status: {
+    publish: boolean;
+    // Topic template, "{label}" is replaced by the stream label
+    topic: string;
+  };
+};
+
+export type JanusStreamState = {
+  connectionState: ConnectionState;
+  isConnected: boolean;
+  error: ConnectionError | null;
+};
+
+// State of the Janus session shared by all tiles of a panel
+export type JanusSessionState = {
+  connectionState: ConnectionState;
+  // Server URL of the current session or connection attempt
+  server: string | null;
+  error: ConnectionError | null;
+  shouldReconnect: boolean;
+};
+
+export type LogType = "info" | "error" | "warn";
+
+// What a log entry is about: the Janus session, the streaming plugin, the WebRTC media or the panel
+export type LogSource = "janus" | "plugin" | "webrtc" | "panel";
+
+export type LogEntry = {
+  // Unix time in milliseconds
+  time: number;
+  type: LogType;
+  source: LogSource;
+  message: string;
+};
+
+export type Log = (message: string, type?: LogType, source?: LogSource) => void;
@@ -0,0 +1,93 @@
+import { SettingsTreeFields } from "@foxglove/extension";
+
+export type FitMode = "contain" | "cover" | "fill" | "native";
+
+// Orientation and scaling of a tile's video, persisted per stream
+export type ViewSettings = {
+  // Clockwise, in degrees
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  fit: FitMode;
+};
+
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  fit: "contain",
+};
+
+export const OBJECT_FIT: Record<FitMode, "contain" | "cover" | "fill" | "none"> = {
+  contain: "contain",
+  cover: "cover",
+  fill: "fill",
+  native: "none",
+};
+
+// Settings fields editing the view of a stream, shared by the main stream and the grid tiles
+export function viewSettingsFields(view: ViewSettings): SettingsTreeFields {
+  return {
+    rotation: {
+      label: "Rotation",
+      input: "select",
+      value: view.rotation,
+      options: [0, 90, 180, 270].map((degrees) => ({ label: `${degrees}°`, value: degrees })),
+    },
+    flipHorizontal: { label: "Flip horizontally", input: "boolean", value: view.flipHorizontal },
+    flipVertical: { label: "Flip vertically", input: "boolean", value: view.flipVertical },
+    fit: {
+      label: "Fit",
+      input: "select",
+      value: view.fit,
+      options: [
+        { label: "Contain", value: "contain" },
+        { label: "Cover", value: "cover" },
+        { label: "Fill", value: "fill" },
+        { label: "Native size", value: "native" },
+      ],
+    },
+  };
+}
+
+/**
+ * CSS transform of the video box: flipped, rotated and zoomed around its center, then panned by
+ * `panX`/`panY` screen pixels. The box is expected to be centered with top/left at 50%.
+ */
+export function viewTransform(
+  view: ViewSettings,
+  zoom: number,
+  panX: number,
+  panY: number,
+): string {
+  return [
+    "translate(-50%, -50%)",
+    `translate(${panX}px, ${panY}px)`,
+    `scale(${zoom})`,
+    `rotate(${view.rotation}deg)`,
+    `scale(${view.flipHorizontal ? -1 : 1}, ${view.flipVertical ? -1 : 1})`,
+  ].join(" ");
+}
+
+// Rectangle a video of the given size occupies in its box with the fit mode applied
+export function fittedRect(
+  fit: FitMode,
+  boxWidth: number,
+  boxHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+): { x: number; y: number; width: number; height: number } {
+  let width = boxWidth;
+  let height = boxHeight;
+  if (fit !== "fill") {
+    const scale =
+      fit === "native"
+        ? 1
+        : fit === "cover"
+          ? Math.max(boxWidth / videoWidth, boxHeight / videoHeight)
+          : Math.min(boxWidth / videoWidth, boxHeight / videoHeight);
+    width = videoWidth * scale;
+    height = videoHeight * scale;
+  }
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+}
@@ -0,0 +1,132 @@
+// Frozen and black image detection thresholds
+export type WatchdogSettings = {
+  enabled: boolean;
+  // Seconds without a new or changed frame before the image counts as frozen
+  frozenTimeout: number;
+  // Mean luminance (0-255) below which the image counts as black
+  blackLevel: number;
+  // Mean pixel difference (0-255) between samples below which the image counts as unchanged
+  minDifference: number;
+};
+
+export const DEFAULT_WATCHDOG_SETTINGS: WatchdogSettings = {
+  enabled: true,
+  frozenTimeout: 3,
+  blackLevel: 8,
+  minDifference: 0.5,
+};
+
+export type VideoAlarm = {
+  kind: "stalled" | "frozen" | "black";
+  message: string;
+};
+
+// Frames are compared downscaled, which also averages out sensor noise
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 18;
+const SAMPLE_INTERVAL_MS = 500;
+
+/**
+ * Samples the frames of `video` on a small offscreen canvas and reports when no new frames arrive,
+ * the image stops changing or it turns black. `onAlarm` is called with undefined once the video
+ * recovers. Returns a function to stop watching.
+ */
+export function watchVideo(
+  video: HTMLVideoElement,
+  settings: WatchdogSettings,
+  onAlarm: (alarm: VideoAlarm | undefined) => void,
+): () => void {
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const context2d = canvas.getContext("2d", { willReadFrequently: true });
+
+  // Frame arrival, from requestVideoFrameCallback or the decoded frame counter
+  let frameCount = 0;
+  let frameHandle: number | undefined;
+  if ("requestVideoFrameCallback" in HTMLVideoElement.prototype) {
+    const onVideoFrame = () => {
+      frameCount++;
+      frameHandle = video.requestVideoFrameCallback(onVideoFrame);
+    };
+    frameHandle = video.requestVideoFrameCallback(onVideoFrame);
+  }
+  const framesPresented = () =>
+    frameHandle != undefined ? frameCount : video.getVideoPlaybackQuality().totalVideoFrames;
+
+  let lastFrames = framesPresented();
+  let lastFrameAt = performance.now();
+  let lastChangeAt = lastFrameAt;
+  let previous: Uint8ClampedArray | undefined;
+  let current: VideoAlarm | undefined;
+
+  const timer = window.setInterval(() => {
+    const now = performance.now();
+    const frames = framesPresented();
+    const newFrame = frames !== lastFrames;
+    lastFrames = frames;
+    if (newFrame) {
+      lastFrameAt = now;
+    }
+
+    let luminance: number | undefined;
+    if (context2d && newFrame && video.videoWidth > 0) {
+      context2d.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const pixels = context2d.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+      luminance = meanLuminance(pixels);
+      if (!previous || meanDifference(previous, pixels) >= settings.minDifference) {
+        lastChangeAt = now;
+      }
+      previous = pixels;
+    } else if (!context2d && newFrame) {
+      lastChangeAt = now;
+    }
+
+    const timeoutMs = settings.frozenTimeout * 1000;
+    let alarm: VideoAlarm | undefined;
+    if (now - lastFrameAt > timeoutMs) {
+      alarm = { kind: "stalled", message: `No new frames for ${settings.frozenTimeout}s` };
+    } else if (luminance != undefined && luminance < settings.blackLevel) {
+      // Checked before frozen, a black image doesn't change either
+      alarm = { kind: "black", message: "Image black" };
+    } else if (luminance == undefined && current?.kind === "black") {
+      // Keep the black alarm until a sampled frame says otherwise
+      alarm = current;
+    } else if (now - lastChangeAt > timeoutMs) {
+      alarm = { kind: "frozen", message: `Image frozen for ${settings.frozenTimeout}s` };
+    }
+
+    if (alarm?.kind !== current?.kind) {
+      current = alarm;
+      onAlarm(alarm);
+    }
+  }, SAMPLE_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    if (frameHandle != undefined) {
+      video.cancelVideoFrameCallback(frameHandle);
+    }
+  };
+}
+
+// Rec. 601 luma of RGBA pixels
+function meanLuminance(pixels: Uint8ClampedArray): number {
+  let sum = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    sum += 0.299 * pixels[i]! + 0.587 * pixels[i + 1]! + 0.114 * pixels[i + 2]!;
+  }
+  return sum / (pixels.length / 4);
+}
+
+function meanDifference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    sum +=
+      (Math.abs(a[i]! - b[i]!) +
+        Math.abs(a[i + 1]! - b[i + 1]!) +
+        Math.abs(a[i + 2]! - b[i + 2]!)) /
+      3;
+  }
+  return sum / (a.length / 4);
+}